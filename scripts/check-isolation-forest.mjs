@@ -0,0 +1,67 @@
+// Node check for supabase/functions/_shared/isolation-forest.ts, which the
+// edge functions run under Deno. The module has no imports, so it is
+// transpiled in memory and loaded as a data: URL.
+//
+//   npm test
+
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import ts from "typescript";
+
+const source = await readFile(new URL("../supabase/functions/_shared/isolation-forest.ts", import.meta.url), "utf8");
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+});
+const { IsolationForest, createRng } = await import(`data:text/javascript;base64,${Buffer.from(outputText).toString("base64")}`);
+
+const FEATURES = ["x", "y"];
+
+// A roughly normal cluster around the origin (sum of uniforms)
+const rng = createRng(7);
+const normal = () => rng() + rng() + rng() - 1.5;
+const inliers = Array.from({ length: 200 }, () => [normal(), normal()]);
+const outlier = [8, -8];
+
+const fitForest = (seed) => new IsolationForest(FEATURES, { nTrees: 50, sampleSize: 64, seed }).fit(inliers);
+
+const checks = {
+  "same seed and data give the same forest and scores": () => {
+    const a = fitForest(42);
+    const b = fitForest(42);
+    assert.deepEqual(a.toJSON(), b.toJSON());
+    assert.equal(a.score(outlier), b.score(outlier));
+    assert.notDeepEqual(fitForest(43).toJSON(), a.toJSON());
+  },
+
+  "an obvious outlier scores above every inlier": () => {
+    const forest = fitForest(42);
+    const maxInlierScore = Math.max(...inliers.map((sample) => forest.score(sample)));
+    assert.ok(
+      forest.score(outlier) > maxInlierScore,
+      `outlier scored ${forest.score(outlier)}, highest inlier ${maxInlierScore}`
+    );
+    assert.ok(forest.isOutlier(outlier));
+  },
+
+  "a forest survives a JSON round trip": () => {
+    const forest = fitForest(42);
+    const restored = IsolationForest.fromJSON(JSON.parse(JSON.stringify(forest.toJSON())));
+    assert.deepEqual(restored.toJSON(), forest.toJSON());
+    for (const sample of [...inliers.slice(0, 20), outlier]) {
+      assert.equal(restored.score(sample), forest.score(sample));
+    }
+  }
+};
+
+let failed = 0;
+for (const [name, check] of Object.entries(checks)) {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`not ok - ${name}\n  ${error.message}`);
+  }
+}
+
+process.exit(failed > 0 ? 1 : 0);
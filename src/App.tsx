@@ -4,6 +4,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Monitors from "./pages/Monitors";
+import Compare from "./pages/Compare";
+import Sessions from "./pages/Sessions";
+import Session from "./pages/Session";
+import Account from "./pages/Account";
+import Results from "./pages/Results";
+import Review from "./pages/Review";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +23,13 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/monitors" element={<Monitors />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/sessions" element={<Sessions />} />
+          <Route path="/sessions/:id" element={<Session />} />
+          <Route path="/accounts/:username" element={<Account />} />
+          <Route path="/results" element={<Results />} />
+          <Route path="/review" element={<Review />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ActivityHeatmap } from "@/components/ActivityHeatmap";
+import { ScoreBreakdown, ScoreExplanation } from "@/components/ScoreBreakdown";
+import { useAccountProfile } from "@/hooks/use-account";
+import { labelVariant } from "@/lib/labels";
+import {
+  Activity,
+  AlertTriangle,
+  ArrowLeft,
+  Bot,
+  Clock,
+  FileText,
+  Hash,
+  MessageSquare,
+  Network,
+  ShieldCheck,
+  Tag,
+  TrendingUp
+} from "lucide-react";
+
+interface AccountProfileProps {
+  username: string;
+}
+
+interface TimelineItem {
+  id: string;
+  kind: "post" | "comment";
+  created_utc: number;
+  subreddit: string | null;
+  text: string;
+  score: number | null;
+}
+
+type SubredditActivity = Record<string, { posts: number; comments: number }>;
+
+// The timeline can run to thousands of items; render it in pages
+const TIMELINE_PAGE_SIZE = 50;
+
+const scoreChartConfig = {
+  bot_probability: { label: "Bot probability", color: "hsl(var(--destructive))" }
+} satisfies ChartConfig;
+
+const formatProbability = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const snippet = (text: string | null, length = 160) => {
+  const clean = (text ?? "").replace(/\s+/g, " ").trim();
+  return clean.length > length ? `${clean.slice(0, length)}…` : clean;
+};
+
+export const AccountProfile = ({ username }: AccountProfileProps) => {
+  const { data, isLoading, error } = useAccountProfile(username);
+  const [timelineLimit, setTimelineLimit] = useState(TIMELINE_PAGE_SIZE);
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background p-6 text-muted-foreground">Loading u/{username}...</div>;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <Alert className="border-destructive/50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>Failed to load account: {error?.message ?? "unknown error"}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { account, posts, comments, results, clusters, labels } = data;
+  const latest = results.length > 0 ? results[results.length - 1] : null;
+  const latestExplanation = [...results]
+    .reverse()
+    .map((result) => result.score_explanation as unknown as ScoreExplanation | null)
+    .find((explanation) => explanation);
+
+  const timeline: TimelineItem[] = [
+    ...posts.map((post) => ({
+      id: post.id,
+      kind: "post" as const,
+      created_utc: post.created_utc ?? 0,
+      subreddit: post.subreddit,
+      text: post.title || post.content || post.url || "",
+      score: post.score
+    })),
+    ...comments.map((comment) => ({
+      id: comment.id,
+      kind: "comment" as const,
+      created_utc: comment.created_utc ?? 0,
+      subreddit: comment.subreddit,
+      text: comment.body ?? "",
+      score: comment.score
+    }))
+  ].sort((a, b) => b.created_utc - a.created_utc);
+
+  // The crawled history is broader than what we stored; fall back to stored items
+  let subredditActivity = (account?.subreddit_activity as SubredditActivity | null) ?? null;
+  if (!subredditActivity || Object.keys(subredditActivity).length === 0) {
+    subredditActivity = {};
+    for (const item of timeline) {
+      if (!item.subreddit) continue;
+      subredditActivity[item.subreddit] ??= { posts: 0, comments: 0 };
+      subredditActivity[item.subreddit][item.kind === "post" ? "posts" : "comments"]++;
+    }
+  }
+  const subreddits = Object.entries(subredditActivity)
+    .map(([name, counts]) => ({ name, ...counts, total: counts.posts + counts.comments }))
+    .sort((a, b) => b.total - a.total);
+  const maxSubredditTotal = Math.max(1, ...subreddits.map((subreddit) => subreddit.total));
+
+  const scoreHistory = results.map((result) => ({
+    time: new Date(result.analysis_timestamp).toLocaleDateString(),
+    bot_probability: result.bot_probability
+  }));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => window.history.back()}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">u/{username}</h1>
+          <p className="text-muted-foreground">
+            {account
+              ? `${account.account_age_days ?? "?"} days old · ${(account.link_karma ?? 0).toLocaleString()} link / ${(account.comment_karma ?? 0).toLocaleString()} comment karma`
+              : "Account details were never extracted"}
+          </p>
+        </div>
+        <div className="ml-auto flex gap-2">
+          {account?.is_verified && (
+            <Badge variant="outline">
+              <ShieldCheck className="h-3 w-3 mr-1" />
+              Verified
+            </Badge>
+          )}
+          {account?.has_verified_email && <Badge variant="outline">Verified email</Badge>}
+          {labels.length > 0 && (
+            <Badge variant={labelVariant(labels[0].label)}>
+              <Tag className="h-3 w-3 mr-1" />
+              Labelled {labels[0].label}
+            </Badge>
+          )}
+          {latest && (
+            <Badge variant={latest.bot_probability > 0.5 ? "destructive" : "outline"}>
+              <Bot className="h-3 w-3 mr-1" />
+              {formatProbability(latest.bot_probability)} bot
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        {/* Score Explanation */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+          <div className="flex items-center gap-2 mb-4">
+            <Bot className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Score Breakdown</h2>
+          </div>
+          {latestExplanation ? (
+            <ScoreBreakdown explanation={latestExplanation} maxFeatures={12} />
+          ) : (
+            <p className="text-sm text-muted-foreground">No stored explanation for this account.</p>
+          )}
+          {latest && ((latest.risk_factors as string[] | null) ?? []).length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-4">
+              {(latest.risk_factors as string[]).map((factor) => (
+                <Badge key={factor} variant="outline" className="text-xs">
+                  {factor}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Detection History */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm lg:col-span-2">
+          <div className="flex items-center gap-2 mb-4">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Detection History</h2>
+          </div>
+          {results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This account has never been scored.</p>
+          ) : (
+            <>
+              {results.length > 1 && (
+                <ChartContainer config={scoreChartConfig} className="h-48 w-full mb-4">
+                  <LineChart data={scoreHistory}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="time" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 1]} tickFormatter={(value) => `${value * 100}%`} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="bot_probability" stroke="var(--color-bot_probability)" dot />
+                  </LineChart>
+                </ChartContainer>
+              )}
+              <div className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Scored</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Probability</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...results].reverse().map((result) => (
+                      <TableRow key={result.id}>
+                        <TableCell className="text-xs">
+                          {result.session_id ? (
+                            <Link to={`/sessions/${result.session_id}`} className="hover:underline">
+                              {new Date(result.analysis_timestamp).toLocaleString()}
+                            </Link>
+                          ) : (
+                            new Date(result.analysis_timestamp).toLocaleString()
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs">{result.detection_method.replace(/_/g, " ")}</TableCell>
+                        <TableCell className="font-mono text-xs">{result.model_version}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={result.bot_probability > 0.5 ? "destructive" : "outline"}>
+                            {formatProbability(result.bot_probability)}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        {/* Hour-of-day Heatmap */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm lg:col-span-2">
+          <div className="flex items-center gap-2 mb-4">
+            <Clock className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Activity by Hour (UTC)</h2>
+          </div>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stored posts or comments.</p>
+          ) : (
+            <ActivityHeatmap timestamps={timeline.map((item) => item.created_utc).filter((time) => time > 0)} />
+          )}
+        </Card>
+
+        {/* Subreddit Breakdown */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+          <div className="flex items-center gap-2 mb-4">
+            <Hash className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Subreddits</h2>
+          </div>
+          {subreddits.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No subreddit activity recorded.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {subreddits.map((subreddit) => (
+                <div key={subreddit.name} className="text-xs">
+                  <div className="flex justify-between mb-0.5">
+                    <span>r/{subreddit.name}</span>
+                    <span className="text-muted-foreground">
+                      {subreddit.posts} posts · {subreddit.comments} comments
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-muted">
+                    <div
+                      className="h-1.5 rounded-full bg-primary"
+                      style={{ width: `${(subreddit.total / maxSubredditTotal) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Activity Timeline */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm lg:col-span-2">
+          <div className="flex items-center gap-2 mb-4">
+            <Activity className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">
+              Activity Timeline ({posts.length} posts, {comments.length} comments)
+            </h2>
+          </div>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stored posts or comments.</p>
+          ) : (
+            <div className="space-y-3">
+              {timeline.slice(0, timelineLimit).map((item) => (
+                <div key={`${item.kind}-${item.id}`} className="flex gap-3 border-l-2 border-border/50 pl-3">
+                  {item.kind === "post" ? (
+                    <FileText className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                  ) : (
+                    <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-xs text-muted-foreground">
+                      {item.created_utc ? new Date(item.created_utc * 1000).toLocaleString() : "unknown time"}
+                      {item.subreddit && ` · r/${item.subreddit}`}
+                      {item.score !== null && ` · ${item.score} points`}
+                    </div>
+                    <p className="text-sm break-words">{snippet(item.text) || <em>empty</em>}</p>
+                  </div>
+                </div>
+              ))}
+              {timeline.length > timelineLimit && (
+                <Button variant="outline" size="sm" onClick={() => setTimelineLimit(timelineLimit + TIMELINE_PAGE_SIZE)}>
+                  Show more ({timeline.length - timelineLimit} remaining)
+                </Button>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <div className="space-y-8">
+          {/* Cluster Memberships */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm h-fit">
+            <div className="flex items-center gap-2 mb-4">
+              <Network className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-semibold">Coordinated Clusters</h2>
+            </div>
+            {clusters.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not part of any detected cluster.</p>
+            ) : (
+              <div className="space-y-3">
+                {clusters.map(({ cluster, edge_weight }) => (
+                  <div key={cluster.id} className="rounded-md border border-border/50 p-3 text-xs space-y-1">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{cluster.member_count} accounts</span>
+                      <span className="text-muted-foreground">density {cluster.density.toFixed(2)}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {Object.entries((cluster.evidence_counts as Record<string, number> | null) ?? {})
+                        .filter(([, count]) => count > 0)
+                        .map(([type, count]) => `${count} ${type.replace(/_/g, " ")}`)
+                        .join(" · ")}
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Link weight {edge_weight.toFixed(2)}</span>
+                      {cluster.session_id && (
+                        <Link to={`/sessions/${cluster.session_id}`} className="text-primary hover:underline">
+                          Session
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Analyst Labels */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm h-fit">
+            <div className="flex items-center gap-2 mb-4">
+              <Tag className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-semibold">Analyst Labels</h2>
+            </div>
+            {labels.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Not reviewed yet.{" "}
+                <Link to="/review" className="text-primary hover:underline">
+                  Open the review queue
+                </Link>
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {labels.map((label) => (
+                  <div key={label.id} className="rounded-md border border-border/50 p-3 text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <Badge variant={labelVariant(label.label)}>{label.label}</Badge>
+                      <span className="text-muted-foreground">{new Date(label.labelled_at).toLocaleString()}</span>
+                    </div>
+                    <div className="text-muted-foreground">by {label.labeller ?? "anonymous"}</div>
+                    {label.note && <p>{label.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
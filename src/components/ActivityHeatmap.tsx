@@ -0,0 +1,54 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface ActivityHeatmapProps {
+  // Unix seconds, as stored in created_utc
+  timestamps: number[];
+}
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Day-of-week by hour-of-day counts in UTC. Accounts that never sleep show up
+// as a band with no quiet hours.
+export const ActivityHeatmap = ({ timestamps }: ActivityHeatmapProps) => {
+  const counts = DAYS.map(() => HOURS.map(() => 0));
+  for (const timestamp of timestamps) {
+    const date = new Date(timestamp * 1000);
+    counts[date.getUTCDay()][date.getUTCHours()]++;
+  }
+  const max = Math.max(1, ...counts.flat());
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-grid grid-cols-[2.5rem_repeat(24,1rem)] gap-0.5 text-[10px] text-muted-foreground">
+        <span />
+        {HOURS.map((hour) => (
+          <span key={hour} className="text-center">
+            {hour % 6 === 0 ? hour : ""}
+          </span>
+        ))}
+        {DAYS.map((day, dayIndex) => (
+          <div key={day} className="contents">
+            <span className="leading-4">{day}</span>
+            {HOURS.map((hour) => {
+              const count = counts[dayIndex][hour];
+              return (
+                <Tooltip key={hour}>
+                  <TooltipTrigger asChild>
+                    <div
+                      className="h-4 w-4 rounded-sm bg-primary"
+                      style={{ opacity: count === 0 ? 0.06 : 0.2 + 0.8 * (count / max) }}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {day} {hour.toString().padStart(2, "0")}:00 UTC · {count} {count === 1 ? "item" : "items"}
+                  </TooltipContent>
+                </Tooltip>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
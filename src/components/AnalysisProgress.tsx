@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { CheckCircle, Circle, Loader2, XCircle } from "lucide-react";
+
+type StageProgress = Tables<"analysis_progress">;
+type SessionRow = Tables<"analysis_sessions">;
+
+interface AnalysisProgressProps {
+  sessionId: string;
+  onSessionUpdate?: (session: SessionRow) => void;
+}
+
+// Display order and labels of the stages the pipeline reports
+const STAGES = [
+  { key: "listing", label: "Subreddit listing" },
+  { key: "comments", label: "Comment threads" },
+  { key: "users", label: "Account profiles" },
+  { key: "detect", label: "Bot scoring" },
+  { key: "coordinate", label: "Coordination analysis" },
+];
+
+const StageIcon = ({ status }: { status?: string }) => {
+  if (status === "running") return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  if (status === "completed") return <CheckCircle className="h-4 w-4 text-success" />;
+  if (status === "failed" || status === "cancelled") return <XCircle className="h-4 w-4 text-destructive" />;
+  return <Circle className="h-4 w-4 text-muted-foreground" />;
+};
+
+// Live view of a session's pipeline, fed by Supabase Realtime. It loads the
+// current rows first, so it can be mounted again after a page reload.
+export const AnalysisProgress = ({ sessionId, onSessionUpdate }: AnalysisProgressProps) => {
+  const [stages, setStages] = useState<Record<string, StageProgress>>({});
+  const [session, setSession] = useState<SessionRow | null>(null);
+  // The parent's callback changes every render; read the latest through a ref
+  // so the subscription depends on the session alone
+  const onSessionUpdateRef = useRef(onSessionUpdate);
+
+  useEffect(() => {
+    onSessionUpdateRef.current = onSessionUpdate;
+  }, [onSessionUpdate]);
+
+  useEffect(() => {
+    let active = true;
+
+    const applySession = (row: SessionRow) => {
+      setSession(row);
+      onSessionUpdateRef.current?.(row);
+    };
+
+    const applyStage = (row: StageProgress) => {
+      setStages((current) => ({ ...current, [row.stage]: row }));
+    };
+
+    const channel = supabase
+      .channel(`analysis-progress-${sessionId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "analysis_progress", filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          if (payload.new && "stage" in payload.new) applyStage(payload.new as StageProgress);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "analysis_sessions", filter: `id=eq.${sessionId}` },
+        (payload) => applySession(payload.new as SessionRow)
+      )
+      .subscribe();
+
+    // Subscribe first, then load, so no update falls between the two
+    const loadCurrent = async () => {
+      const [{ data: progressRows }, { data: sessionRow }] = await Promise.all([
+        supabase.from("analysis_progress").select("*").eq("session_id", sessionId),
+        supabase.from("analysis_sessions").select("*").eq("id", sessionId).single(),
+      ]);
+
+      if (!active) return;
+      (progressRows || []).forEach(applyStage);
+      if (sessionRow) applySession(sessionRow);
+    };
+    loadCurrent();
+
+    return () => {
+      active = false;
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="space-y-3">
+      {session && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Session: {session.session_name}</span>
+          <Badge variant="outline" className="text-xs">
+            {(session.status ?? "pending").replace(/_/g, " ")}
+          </Badge>
+        </div>
+      )}
+
+      {STAGES.map(({ key, label }) => {
+        const stage = stages[key];
+        const total = stage?.items_total ?? null;
+        const done = stage?.items_done ?? 0;
+        const percent = stage?.status === "completed" ? 100 : total ? Math.min((done / total) * 100, 100) : 0;
+
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <StageIcon status={stage?.status} />
+                <span className={stage ? "" : "text-muted-foreground"}>{label}</span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {stage ? (total !== null ? `${done} / ${total}` : `${done}`) : "waiting"}
+              </span>
+            </div>
+
+            {stage && (
+              <>
+                <Progress value={percent} className="h-1.5" />
+                <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                  {stage.status === "running" && stage.current_item && <span>Now: {stage.current_item}</span>}
+                  {stage.message && <span>{stage.message}</span>}
+                  {stage.error_count > 0 && <span className="text-destructive">{stage.error_count} errors</span>}
+                  {stage.rate_limit_waits > 0 && <span>{stage.rate_limit_waits} rate-limit waits</span>}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      {session?.error_message && (
+        <p className="text-xs text-destructive">{session.error_message}</p>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { ScoreBreakdown, ScoreExplanation } from "@/components/ScoreBreakdown";
+import { AnalysisProgress } from "@/components/AnalysisProgress";
+import { LIVE_JOB_STATUSES, TERMINAL_SESSION_STATUSES } from "@/lib/sessions";
 import { 
   Shield, 
   AlertTriangle, 
@@ -21,7 +26,9 @@ import {
   Play,
   RefreshCw,
   Calendar,
-  Database
+  Database,
+  GitCompare,
+  ClipboardCheck
 } from "lucide-react";
 
 interface AnalysisResult {
@@ -30,6 +37,7 @@ interface AnalysisResult {
   confidence_score: number;
   detection_method: string;
   features_analyzed: Record<string, any>;
+  score_explanation: ScoreExplanation | null;
   risk_factors: string[];
   analysis_timestamp: string;
 }
@@ -43,37 +51,79 @@ interface AnalysisSession {
   bots_detected: number;
   started_at: string;
   completed_at?: string;
+  error_message?: string | null;
 }
 
 interface DashboardStats {
   total_accounts: number;
   bots_detected: number;
-  accuracy_rate: number;
+  accuracy_rate: number | null;
   detection_rate: number;
 }
 
+interface EvaluationSummary {
+  detection_method: string;
+  holdout_size: number;
+  threshold: number;
+  precision: number;
+  recall: number;
+  f1_score: number;
+  accuracy: number;
+  roc_auc: number | null;
+  pr_auc: number | null;
+  created_at: string;
+}
+
 export const BotDetectionDashboard = () => {
   const [subreddit, setSubreddit] = useState("");
+  const [sort, setSort] = useState("hot");
+  const [timeWindow, setTimeWindow] = useState("day");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentSession, setCurrentSession] = useState<AnalysisSession | null>(null);
   const [results, setResults] = useState<AnalysisResult[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     total_accounts: 0,
     bots_detected: 0,
-    accuracy_rate: 0,
+    accuracy_rate: null,
     detection_rate: 0
   });
+  const [evaluation, setEvaluation] = useState<EvaluationSummary | null>(null);
+  const [labelCount, setLabelCount] = useState<number | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchLatestResults();
     fetchStats();
+    reattachToRunningSession();
   }, []);
 
+  // A reload mid-analysis picks the running session back up. Only a session
+  // with a live job counts; one left 'queued' without a job would never move.
+  const reattachToRunningSession = async () => {
+    const { data, error } = await supabase
+      .from('analysis_jobs')
+      .select('analysis_sessions(*)')
+      .in('status', LIVE_JOB_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching running session:', error);
+      return;
+    }
+
+    const session = data?.[0]?.analysis_sessions;
+    if (session && !TERMINAL_SESSION_STATUSES.includes(session.status)) {
+      setCurrentSession(session);
+      setIsAnalyzing(true);
+    }
+  };
+
   const fetchLatestResults = async () => {
     try {
+      // One row per account: its most recent verdict from any run
       const { data, error } = await supabase
-        .from('bot_detection_results')
+        .from('latest_bot_verdicts')
         .select('*')
         .order('analysis_timestamp', { ascending: false })
         .limit(10);
@@ -85,6 +135,7 @@ export const BotDetectionDashboard = () => {
         confidence_score: item.confidence_score,
         detection_method: item.detection_method,
         features_analyzed: (item.features_analyzed as any) || {},
+        score_explanation: (item.score_explanation as unknown as ScoreExplanation | null) ?? null,
         risk_factors: (item.risk_factors as any) || [],
         analysis_timestamp: item.analysis_timestamp
       })));
@@ -100,17 +151,31 @@ export const BotDetectionDashboard = () => {
         .select('id', { count: 'exact' });
 
       const { data: botResults } = await supabase
-        .from('bot_detection_results')
+        .from('latest_bot_verdicts')
         .select('bot_probability')
         .gt('bot_probability', 0.5);
 
+      // Most recent holdout evaluation from model-evaluation
+      const { data: evaluations } = await supabase
+        .from('evaluation_runs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      const { count: labels } = await supabase
+        .from('account_labels')
+        .select('id', { count: 'exact', head: true });
+
       const totalAccounts = accounts?.length || 0;
       const botsDetected = botResults?.length || 0;
+      const latestEvaluation = evaluations?.[0] ?? null;
 
+      setEvaluation(latestEvaluation);
+      setLabelCount(labels ?? 0);
       setStats({
         total_accounts: totalAccounts,
         bots_detected: botsDetected,
-        accuracy_rate: 94.7, // This would come from model validation
+        accuracy_rate: latestEvaluation ? latestEvaluation.accuracy * 100 : null,
         detection_rate: totalAccounts > 0 ? (botsDetected / totalAccounts) * 100 : 0
       });
     } catch (error) {
@@ -118,6 +183,36 @@ export const BotDetectionDashboard = () => {
     }
   };
 
+  // Called by AnalysisProgress for every session change it receives
+  const handleSessionUpdate = (session: AnalysisSession) => {
+    setCurrentSession(session);
+    if (!TERMINAL_SESSION_STATUSES.includes(session.status)) return;
+
+    if (session.status === 'failed') {
+      toast({
+        title: "Analysis Failed",
+        description: session.error_message || "Analysis failed",
+        variant: "destructive"
+      });
+    } else if (session.status === 'cancelled') {
+      toast({
+        title: "Analysis Cancelled",
+        description: `Stopped after ${session.total_accounts_analyzed} users; partial data was kept`,
+      });
+    } else {
+      toast({
+        title: "Analysis Complete",
+        description: `Found ${session.bots_detected} potential bots out of ${session.total_accounts_analyzed} users`,
+      });
+    }
+
+    // Refresh data
+    fetchLatestResults();
+    fetchStats();
+    setIsAnalyzing(false);
+    setCurrentSession(null);
+  };
+
   const handleStartAnalysis = async () => {
     if (!subreddit.trim()) {
       toast({
@@ -135,7 +230,9 @@ export const BotDetectionDashboard = () => {
         body: {
           action: 'create',
           session_name: `r/${subreddit} Analysis`,
-          subreddit: subreddit
+          subreddit: subreddit,
+          sort: sort,
+          t: timeWindow
         }
       });
 
@@ -157,15 +254,7 @@ export const BotDetectionDashboard = () => {
 
       if (analysisResponse.error) throw analysisResponse.error;
 
-      toast({
-        title: "Analysis Complete",
-        description: `Found ${analysisResponse.data.detection_result.bots_detected} potential bots out of ${analysisResponse.data.detection_result.users_analyzed} users`,
-      });
-
-      // Refresh data
-      fetchLatestResults();
-      fetchStats();
-
+      // The pipeline runs in the background; AnalysisProgress follows it from here
     } catch (error: any) {
       console.error('Analysis error:', error);
       toast({
@@ -173,7 +262,6 @@ export const BotDetectionDashboard = () => {
         description: error.message || "Failed to run analysis",
         variant: "destructive"
       });
-    } finally {
       setIsAnalyzing(false);
       setCurrentSession(null);
     }
@@ -211,6 +299,30 @@ export const BotDetectionDashboard = () => {
             </h1>
             <p className="text-muted-foreground">Advanced AI-powered fake account detection system</p>
           </div>
+          <Button variant="outline" size="sm" className="ml-auto" asChild>
+            <Link to="/sessions">
+              <Database className="h-4 w-4 mr-2" />
+              Sessions
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/compare">
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/monitors">
+              <Calendar className="h-4 w-4 mr-2" />
+              Monitors
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/review">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Review
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -247,7 +359,9 @@ export const BotDetectionDashboard = () => {
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Accuracy Rate</p>
-              <p className="text-2xl font-bold text-success">{stats.accuracy_rate.toFixed(1)}%</p>
+              <p className="text-2xl font-bold text-success">
+                {stats.accuracy_rate !== null ? `${stats.accuracy_rate.toFixed(1)}%` : "—"}
+              </p>
             </div>
           </div>
         </Card>
@@ -286,6 +400,48 @@ export const BotDetectionDashboard = () => {
                   className="bg-input/50 border-border/50"
                 />
               </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Listing
+                  </label>
+                  <Select value={sort} onValueChange={setSort}>
+                    <SelectTrigger className="bg-input/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hot">Hot</SelectItem>
+                      <SelectItem value="new">New</SelectItem>
+                      <SelectItem value="top">Top</SelectItem>
+                      <SelectItem value="rising">Rising</SelectItem>
+                      <SelectItem value="controversial">Controversial</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Time Window
+                  </label>
+                  <Select
+                    value={timeWindow}
+                    onValueChange={setTimeWindow}
+                    disabled={sort !== "top" && sort !== "controversial"}
+                  >
+                    <SelectTrigger className="bg-input/50 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hour">Past Hour</SelectItem>
+                      <SelectItem value="day">Past Day</SelectItem>
+                      <SelectItem value="week">Past Week</SelectItem>
+                      <SelectItem value="month">Past Month</SelectItem>
+                      <SelectItem value="year">Past Year</SelectItem>
+                      <SelectItem value="all">All Time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
               
               <Button 
                 onClick={handleStartAnalysis}
@@ -306,15 +462,7 @@ export const BotDetectionDashboard = () => {
               </Button>
               
               {isAnalyzing && currentSession && (
-                <div className="space-y-2">
-                  <Progress value={65} className="h-2" />
-                  <p className="text-sm text-muted-foreground text-center">
-                    Extracting data and running bot detection...
-                  </p>
-                  <p className="text-xs text-muted-foreground text-center">
-                    Session: {currentSession.session_name}
-                  </p>
-                </div>
+                <AnalysisProgress sessionId={currentSession.id} onSessionUpdate={handleSessionUpdate} />
               )}
             </div>
 
@@ -345,6 +493,9 @@ export const BotDetectionDashboard = () => {
             <div className="flex items-center gap-2 mb-6">
               <Eye className="h-5 w-5 text-primary" />
               <h2 className="text-xl font-semibold">Recent Analysis</h2>
+              <Button variant="ghost" size="sm" className="ml-auto" asChild>
+                <Link to="/results">View all results</Link>
+              </Button>
             </div>
             
             <div className="space-y-4 max-h-96 overflow-y-auto">
@@ -357,7 +508,7 @@ export const BotDetectionDashboard = () => {
                     <div className="flex items-center gap-3">
                       <div className="flex items-center gap-1">
                         {getStatusIcon(result.bot_probability)}
-                        <span className="font-mono text-sm">u/{result.username}</span>
+                        <Link to={`/accounts/${result.username}`} className="font-mono text-sm hover:underline">u/{result.username}</Link>
                       </div>
                       <Badge 
                         variant={getStatusColor(result.bot_probability) as any}
@@ -389,6 +540,15 @@ export const BotDetectionDashboard = () => {
                     </div>
                   </div>
                   
+                  {result.score_explanation && (
+                    <div className="mb-3">
+                      <span className="text-xs text-muted-foreground">Score Breakdown</span>
+                      <div className="mt-1">
+                        <ScoreBreakdown explanation={result.score_explanation} />
+                      </div>
+                    </div>
+                  )}
+                  
                   <div className="flex flex-wrap gap-1">
                     {result.risk_factors.map((factor, i) => (
                       <Badge key={i} variant="outline" className="text-xs">
@@ -410,29 +570,40 @@ export const BotDetectionDashboard = () => {
           <div>
             <h3 className="font-medium mb-2">Training Data</h3>
             <p className="text-sm text-muted-foreground mb-2">
-              50,000+ Reddit accounts with labeled bot/human classifications
+              {labelCount === null ? "Loading label count…" : `${labelCount.toLocaleString()} analyst labels`}
             </p>
             <div className="text-xs text-muted-foreground">
-              Sources: Known bot networks, verified human accounts, suspicious activity patterns
+              Source: bot/human verdicts recorded in the review queue
             </div>
           </div>
           <div>
             <h3 className="font-medium mb-2">Model Architecture</h3>
             <p className="text-sm text-muted-foreground mb-2">
-              Isolation Forest with feature engineering for anomaly detection
+              Rule-based scoring blended 70/30 with an Isolation Forest anomaly score
             </p>
             <div className="text-xs text-muted-foreground">
-              Features: Posting patterns, content analysis, temporal behavior, account metadata
+              Features: Posting patterns, content analysis, temporal behavior, username patterns, account metadata
             </div>
           </div>
           <div>
             <h3 className="font-medium mb-2">Performance Metrics</h3>
-            <p className="text-sm text-muted-foreground mb-2">
-              Precision: 92.1% | Recall: 89.4% | F1-Score: 90.7%
-            </p>
-            <div className="text-xs text-muted-foreground">
-              Last updated: January 2024 | Model version: v2.1
-            </div>
+            {evaluation ? (
+              <>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Precision: {(evaluation.precision * 100).toFixed(1)}% | Recall: {(evaluation.recall * 100).toFixed(1)}% | F1-Score: {(evaluation.f1_score * 100).toFixed(1)}%
+                </p>
+                <div className="text-xs text-muted-foreground">
+                  ROC-AUC: {evaluation.roc_auc !== null ? evaluation.roc_auc.toFixed(3) : "n/a"} | PR-AUC: {evaluation.pr_auc !== null ? evaluation.pr_auc.toFixed(3) : "n/a"} | Threshold: {evaluation.threshold}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {evaluation.detection_method} on {evaluation.holdout_size} holdout accounts | Evaluated {new Date(evaluation.created_at).toLocaleDateString()}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground mb-2">
+                No evaluation has been run yet. Label accounts and run model-evaluation to measure precision and recall.
+              </p>
+            )}
           </div>
         </div>
       </Card>
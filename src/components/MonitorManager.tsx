@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowLeft, CalendarClock, History, Pause, Play, Plus, Trash2 } from "lucide-react";
+
+interface Monitor {
+  id: string;
+  name: string;
+  subreddit: string;
+  sort: string;
+  t: string;
+  cron_expression: string;
+  detection_method: string;
+  is_paused: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+}
+
+interface MonitorRun {
+  id: string;
+  status: "started" | "skipped" | "failed";
+  scheduled_for: string;
+  message: string | null;
+  analysis_sessions: {
+    id: string;
+    status: string;
+    total_accounts_analyzed: number;
+    bots_detected: number;
+    completed_at: string | null;
+    error_message: string | null;
+  } | null;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+const invokeMonitors = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("monitors", { body });
+  if (error) throw error;
+  return data;
+};
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error && error.message) || fallback;
+
+const runBadgeVariant = (status: MonitorRun["status"]) => {
+  if (status === "failed") return "destructive";
+  if (status === "skipped") return "secondary";
+  return "outline";
+};
+
+export const MonitorManager = () => {
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<MonitorRun[]>([]);
+  const [subreddit, setSubreddit] = useState("");
+  const [sort, setSort] = useState("hot");
+  const [cronExpression, setCronExpression] = useState("0 7 * * *");
+  const [detectionMethod, setDetectionMethod] = useState("hybrid");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchMonitors = useCallback(async () => {
+    try {
+      const data = await invokeMonitors({ action: "list" });
+      setMonitors(data.monitors);
+    } catch (error) {
+      console.error("Error fetching monitors:", error);
+    }
+  }, []);
+
+  const fetchRuns = useCallback(async (monitorId: string) => {
+    try {
+      const data = await invokeMonitors({ action: "get", monitor_id: monitorId });
+      setRuns(data.runs);
+    } catch (error) {
+      console.error("Error fetching monitor runs:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMonitors();
+  }, [fetchMonitors]);
+
+  useEffect(() => {
+    if (selectedId) fetchRuns(selectedId);
+  }, [selectedId, fetchRuns]);
+
+  const handleCreate = async () => {
+    if (!subreddit.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a subreddit name",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await invokeMonitors({
+        action: "create",
+        subreddit: subreddit.trim(),
+        sort,
+        cron_expression: cronExpression,
+        detection_method: detectionMethod
+      });
+      toast({
+        title: "Monitor Created",
+        description: `r/${subreddit.trim()} will be analyzed on "${cronExpression}" (UTC)`,
+      });
+      setSubreddit("");
+      fetchMonitors();
+    } catch (error) {
+      toast({
+        title: "Failed to Create Monitor",
+        description: errorMessage(error, "Failed to create monitor"),
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAction = async (monitor: Monitor, action: "pause" | "resume" | "delete") => {
+    try {
+      await invokeMonitors({ action, monitor_id: monitor.id });
+      if (action === "delete" && selectedId === monitor.id) setSelectedId(null);
+      fetchMonitors();
+    } catch (error) {
+      toast({
+        title: "Monitor Update Failed",
+        description: errorMessage(error, `Failed to ${action} monitor`),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const selected = monitors.find((monitor) => monitor.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Monitors</h1>
+          <p className="text-muted-foreground">Re-run subreddit analyses on a schedule</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* New Monitor Form */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm h-fit">
+          <div className="flex items-center gap-2 mb-6">
+            <Plus className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">New Monitor</h2>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground mb-2 block">Subreddit Name</label>
+              <Input
+                placeholder="Enter subreddit (e.g., AskReddit)..."
+                value={subreddit}
+                onChange={(e) => setSubreddit(e.target.value)}
+                className="bg-input/50 border-border/50"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">Listing</label>
+                <Select value={sort} onValueChange={setSort}>
+                  <SelectTrigger className="bg-input/50 border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hot">Hot</SelectItem>
+                    <SelectItem value="new">New</SelectItem>
+                    <SelectItem value="rising">Rising</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">Method</label>
+                <Select value={detectionMethod} onValueChange={setDetectionMethod}>
+                  <SelectTrigger className="bg-input/50 border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hybrid">Hybrid</SelectItem>
+                    <SelectItem value="rule_based">Rule based</SelectItem>
+                    <SelectItem value="supervised">Supervised</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-muted-foreground mb-2 block">Schedule (cron, UTC)</label>
+              <Input
+                placeholder="0 7 * * *"
+                value={cronExpression}
+                onChange={(e) => setCronExpression(e.target.value)}
+                className="bg-input/50 border-border/50 font-mono"
+              />
+            </div>
+
+            <Button onClick={handleCreate} disabled={isSaving || !subreddit.trim()} className="w-full">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Create Monitor
+            </Button>
+          </div>
+        </Card>
+
+        {/* Monitor List */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+            <h2 className="text-xl font-semibold mb-4">Scheduled Monitors</h2>
+            {monitors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No monitors yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Monitor</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {monitors.map((monitor) => (
+                    <TableRow
+                      key={monitor.id}
+                      className={selectedId === monitor.id ? "bg-muted/50" : "cursor-pointer"}
+                      onClick={() => setSelectedId(monitor.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{monitor.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {monitor.sort} · {monitor.detection_method.replace(/_/g, " ")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{monitor.cron_expression}</TableCell>
+                      <TableCell className="text-xs">
+                        {monitor.is_paused ? <Badge variant="secondary">Paused</Badge> : formatTime(monitor.next_run_at)}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatTime(monitor.last_run_at)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={monitor.is_paused ? "Resume" : "Pause"}
+                            onClick={() => handleAction(monitor, monitor.is_paused ? "resume" : "pause")}
+                          >
+                            {monitor.is_paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Delete" onClick={() => handleAction(monitor, "delete")}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+
+          {/* Run History */}
+          {selected && (
+            <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+              <div className="flex items-center gap-2 mb-4">
+                <History className="h-5 w-5 text-primary" />
+                <h2 className="text-xl font-semibold">Run History: {selected.name}</h2>
+              </div>
+              {runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This monitor has not run yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Scheduled For</TableHead>
+                      <TableHead>Run</TableHead>
+                      <TableHead>Session</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell className="text-xs">{formatTime(run.scheduled_for)}</TableCell>
+                        <TableCell>
+                          <Badge variant={runBadgeVariant(run.status)}>{run.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {run.analysis_sessions ? run.analysis_sessions.status.replace(/_/g, " ") : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {run.analysis_sessions?.status === "completed"
+                            ? `${run.analysis_sessions.bots_detected} bots / ${run.analysis_sessions.total_accounts_analyzed} users`
+                            : run.analysis_sessions?.error_message || run.message}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
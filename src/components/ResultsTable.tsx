@@ -0,0 +1,492 @@
+import { useState, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignReviewer } from "@/hooks/use-review";
+import {
+  ResultFilters,
+  ResultRow,
+  ResultSortColumn,
+  VERDICT_BUCKETS,
+  VerdictBucket,
+  useResults
+} from "@/hooks/use-results";
+import { downloadFile, toCsv } from "@/lib/export";
+import { REVIEWER_STORAGE_KEY, labelVariant } from "@/lib/labels";
+import { cn } from "@/lib/utils";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  Copy,
+  Download,
+  UserCheck,
+  X
+} from "lucide-react";
+
+type ColumnId =
+  | "username"
+  | "bot_probability"
+  | "confidence_score"
+  | "detection_method"
+  | "account_age_days"
+  | "total_karma"
+  | "subreddit"
+  | "risk_factors"
+  | "analyst_label"
+  | "analysis_timestamp";
+
+interface Column {
+  id: ColumnId;
+  label: string;
+  sortable?: boolean;
+  align?: "right";
+  render: (row: ResultRow) => ReactNode;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+
+// Select items cannot have an empty value, so "any" stands in for no filter
+const ANY = "any";
+
+const formatProbability = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const probabilityVariant = (value: number | null) => {
+  if (value !== null && value > 0.7) return "destructive";
+  if (value !== null && value > 0.5) return "secondary";
+  return "outline";
+};
+
+const riskFactors = (row: ResultRow) => (row.risk_factors as string[] | null) ?? [];
+
+const COLUMNS: Column[] = [
+  {
+    id: "username",
+    label: "Account",
+    render: (row) => (
+      <Link to={`/accounts/${row.username}`} className="font-mono hover:underline">
+        u/{row.username}
+      </Link>
+    )
+  },
+  {
+    id: "bot_probability",
+    label: "Bot Probability",
+    sortable: true,
+    align: "right",
+    render: (row) => <Badge variant={probabilityVariant(row.bot_probability)}>{formatProbability(row.bot_probability)}</Badge>
+  },
+  {
+    id: "confidence_score",
+    label: "Confidence",
+    sortable: true,
+    align: "right",
+    render: (row) => formatProbability(row.confidence_score)
+  },
+  {
+    id: "detection_method",
+    label: "Method",
+    render: (row) => (row.detection_method ?? "").replace(/_/g, " ")
+  },
+  {
+    id: "account_age_days",
+    label: "Account Age",
+    sortable: true,
+    align: "right",
+    render: (row) => (row.account_age_days === null ? "—" : `${row.account_age_days}d`)
+  },
+  {
+    id: "total_karma",
+    label: "Karma",
+    sortable: true,
+    align: "right",
+    render: (row) => (row.total_karma ?? 0).toLocaleString()
+  },
+  {
+    id: "subreddit",
+    label: "Subreddit",
+    render: (row) =>
+      row.subreddit ? (
+        <Link to={`/sessions/${row.session_id}`} className="hover:underline">
+          r/{row.subreddit}
+        </Link>
+      ) : (
+        "—"
+      )
+  },
+  {
+    id: "risk_factors",
+    label: "Risk Factors",
+    render: (row) => {
+      const factors = riskFactors(row);
+      return (
+        <span className="text-xs text-muted-foreground" title={factors.join("\n")}>
+          {factors.length === 0 ? "—" : factors.length === 1 ? factors[0] : `${factors[0]} +${factors.length - 1}`}
+        </span>
+      );
+    }
+  },
+  {
+    id: "analyst_label",
+    label: "Analyst Label",
+    render: (row) => (row.analyst_label ? <Badge variant={labelVariant(row.analyst_label)}>{row.analyst_label}</Badge> : "—")
+  },
+  {
+    id: "analysis_timestamp",
+    label: "Analyzed",
+    sortable: true,
+    render: (row) => (row.analysis_timestamp ? new Date(row.analysis_timestamp).toLocaleString() : "—")
+  }
+];
+
+const DEFAULT_HIDDEN: ColumnId[] = ["confidence_score", "risk_factors"];
+
+export const ResultsTable = () => {
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [sortColumn, setSortColumn] = useState<ResultSortColumn>("bot_probability");
+  const [ascending, setAscending] = useState(false);
+  const [filters, setFilters] = useState<ResultFilters>({});
+  const [hiddenColumns, setHiddenColumns] = useState<Set<ColumnId>>(new Set(DEFAULT_HIDDEN));
+  // Keyed by id and kept across pages, so a bulk action can span several pages
+  const [selected, setSelected] = useState<Map<string, ResultRow>>(new Map());
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  const { toast } = useToast();
+  const assignReviewer = useAssignReviewer();
+
+  const { data, isLoading, isFetching, error } = useResults({ page, pageSize, sortColumn, ascending, filters });
+
+  const rows = data?.rows ?? [];
+  const totalPages = data ? Math.max(Math.ceil(data.total / pageSize), 1) : 1;
+  const visibleColumns = COLUMNS.filter((column) => !hiddenColumns.has(column.id));
+  const pageSelected = rows.length > 0 && rows.every((row) => row.id && selected.has(row.id));
+
+  const updateFilter = <K extends keyof ResultFilters>(key: K, value: ResultFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const toggleSort = (column: ResultSortColumn) => {
+    if (column === sortColumn) {
+      setAscending(!ascending);
+    } else {
+      setSortColumn(column);
+      setAscending(false);
+    }
+    setPage(1);
+  };
+
+  const toggleColumn = (id: ColumnId) => {
+    setHiddenColumns((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleRow = (row: ResultRow) => {
+    const id = row.id;
+    if (!id) return;
+    setSelected((current) => {
+      const next = new Map(current);
+      if (next.has(id)) next.delete(id);
+      else next.set(id, row);
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Map(current);
+      for (const row of rows) {
+        if (!row.id) continue;
+        if (pageSelected) next.delete(row.id);
+        else next.set(row.id, row);
+      }
+      return next;
+    });
+  };
+
+  const exportSelected = () => {
+    const selectedRows = [...selected.values()];
+    const csv = toCsv(
+      ["username", "bot_probability", "confidence_score", "detection_method", "model_version", "account_age_days", "total_karma", "subreddit", "risk_factors", "analyst_label", "analysis_timestamp"],
+      selectedRows.map((row) => [
+        row.username, row.bot_probability, row.confidence_score, row.detection_method, row.model_version,
+        row.account_age_days, row.total_karma, row.subreddit, riskFactors(row).join("; "), row.analyst_label, row.analysis_timestamp
+      ])
+    );
+    downloadFile(`detection-results-${new Date().toISOString().slice(0, 10)}.csv`, csv, "text/csv");
+  };
+
+  const copyUsernames = async () => {
+    const usernames = [...new Set([...selected.values()].map((row) => row.username))];
+    await navigator.clipboard.writeText(usernames.join("\n"));
+    toast({ title: "Copied", description: `${usernames.length} usernames copied to the clipboard` });
+  };
+
+  const assignSelected = async () => {
+    const name = reviewer.trim();
+    if (!name) return;
+    const usernames = [...new Set([...selected.values()].map((row) => row.username))];
+    try {
+      await assignReviewer.mutateAsync({ usernames, reviewer: name });
+      localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+      toast({ title: "Assigned", description: `${usernames.length} accounts queued for review by ${name}` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error instanceof Error && error.message) || "Failed to assign accounts",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const sortIcon = (column: ResultSortColumn) => {
+    if (column !== sortColumn) return <ArrowUpDown className="h-3 w-3 ml-1 opacity-50" />;
+    return ascending ? <ArrowUp className="h-3 w-3 ml-1" /> : <ArrowDown className="h-3 w-3 ml-1" />;
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Detection Results</h1>
+          <p className="text-muted-foreground">Every stored verdict, across all sessions</p>
+        </div>
+      </div>
+
+      <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+        {/* Filters */}
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-4">
+          <Select value={filters.verdict ?? ANY} onValueChange={(value) => updateFilter("verdict", value === ANY ? undefined : value as VerdictBucket)}>
+            <SelectTrigger className="bg-input/50 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any verdict</SelectItem>
+              {Object.entries(VERDICT_BUCKETS).map(([value, bucket]) => (
+                <SelectItem key={value} value={value}>
+                  {bucket.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.method ?? ANY} onValueChange={(value) => updateFilter("method", value === ANY ? undefined : value)}>
+            <SelectTrigger className="bg-input/50 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any method</SelectItem>
+              <SelectItem value="hybrid">Hybrid</SelectItem>
+              <SelectItem value="rule_based">Rule based</SelectItem>
+              <SelectItem value="supervised">Supervised</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Risk factor contains..."
+            value={filters.riskFactor ?? ""}
+            onChange={(e) => updateFilter("riskFactor", e.target.value)}
+            className="bg-input/50 border-border/50"
+          />
+          <Input
+            placeholder="Subreddit"
+            value={filters.subreddit ?? ""}
+            onChange={(e) => updateFilter("subreddit", e.target.value.trim())}
+            className="bg-input/50 border-border/50"
+          />
+          <Input
+            type="date"
+            title="Analyzed from"
+            value={filters.from ?? ""}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className="bg-input/50 border-border/50"
+          />
+          <Input
+            type="date"
+            title="Analyzed until"
+            value={filters.to ?? ""}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className="bg-input/50 border-border/50"
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Columns3 className="h-4 w-4 mr-2" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {COLUMNS.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hiddenColumns.has(column.id)}
+                  onCheckedChange={() => toggleColumn(column.id)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {/* Bulk Actions */}
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2 mb-4 p-2 rounded-md bg-muted/50 text-sm">
+            <span className="font-medium">{selected.size} selected</span>
+            <Button variant="outline" size="sm" onClick={exportSelected}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={copyUsernames}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy usernames
+            </Button>
+            <Input
+              placeholder="Reviewer"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              className="h-9 w-40 bg-input/50 border-border/50"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={assignSelected}
+              disabled={!reviewer.trim() || assignReviewer.isPending}
+            >
+              <UserCheck className="h-4 w-4 mr-2" />
+              Assign for review
+            </Button>
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelected(new Map())}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-sm text-destructive">Failed to load results: {error.message}</p>
+        ) : (
+          <Table className={cn(isFetching && "opacity-60")}>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox checked={pageSelected} onCheckedChange={togglePage} aria-label="Select page" />
+                </TableHead>
+                {visibleColumns.map((column) => (
+                  <TableHead key={column.id} className={cn(column.align === "right" && "text-right")}>
+                    {column.sortable ? (
+                      <button
+                        className="inline-flex items-center hover:text-foreground"
+                        onClick={() => toggleSort(column.id as ResultSortColumn)}
+                      >
+                        {column.label}
+                        {sortIcon(column.id as ResultSortColumn)}
+                      </button>
+                    ) : (
+                      column.label
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={visibleColumns.length + 1} className="text-center text-muted-foreground">
+                    Loading results...
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={visibleColumns.length + 1} className="text-center text-muted-foreground">
+                    No results match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.id} data-state={row.id && selected.has(row.id) ? "selected" : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!row.id && selected.has(row.id)}
+                        onCheckedChange={() => toggleRow(row)}
+                        aria-label={`Select u/${row.username}`}
+                      />
+                    </TableCell>
+                    {visibleColumns.map((column) => (
+                      <TableCell key={column.id} className={cn("text-sm", column.align === "right" && "text-right")}>
+                        {column.render(row)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between mt-6">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{data ? `${data.total.toLocaleString()} results · page ${page} of ${totalPages}` : ""}</span>
+            <Select
+              value={String(pageSize)}
+              onValueChange={(value) => {
+                setPageSize(Number(value));
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="h-8 w-20 bg-input/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
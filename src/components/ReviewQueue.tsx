@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScoreBreakdown, ScoreExplanation } from "@/components/ScoreBreakdown";
+import { useToast } from "@/hooks/use-toast";
+import { QueueOrder, useLabelAccount, useReviewQueue, useReviewerAgreement } from "@/hooks/use-review";
+import { LABEL_OPTIONS, LabelValue, REVIEWER_STORAGE_KEY, labelVariant } from "@/lib/labels";
+import { ArrowLeft, ClipboardCheck, ExternalLink, Network, SkipForward, Users } from "lucide-react";
+
+const formatProbability = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export const ReviewQueue = () => {
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  const [minProbability, setMinProbability] = useState(0.5);
+  const [order, setOrder] = useState<QueueOrder>("uncertainty");
+  const [note, setNote] = useState("");
+  // Labelled or skipped in this sitting; hides them before the queue refetches
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  // Skipped accounts stay in the server queue, so the next page starts after them
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const queue = useReviewQueue({ reviewer: reviewer.trim(), minProbability, order, offset: skipped.size });
+  const agreement = useReviewerAgreement();
+  const labelAccount = useLabelAccount();
+
+  const pending = (queue.data?.items ?? []).filter((item) => !dismissed.has(item.username));
+  const current = pending[0] ?? null;
+  const explanation = current?.score_explanation as ScoreExplanation | null;
+
+  useEffect(() => {
+    localStorage.setItem(REVIEWER_STORAGE_KEY, reviewer.trim());
+  }, [reviewer]);
+
+  // A different queue starts from its head again
+  useEffect(() => {
+    setSkipped(new Set());
+  }, [reviewer, minProbability, order]);
+
+  const dismiss = useCallback((username: string) => {
+    setDismissed((existing) => new Set(existing).add(username));
+    setNote("");
+  }, []);
+
+  const skip = useCallback(
+    (username: string) => {
+      setSkipped((existing) => new Set(existing).add(username));
+      dismiss(username);
+    },
+    [dismiss]
+  );
+
+  const submitLabel = useCallback(
+    async (label: LabelValue) => {
+      if (!current || labelAccount.isPending) return;
+      try {
+        await labelAccount.mutateAsync({ username: current.username, label, reviewer: reviewer.trim(), note: note.trim() });
+        dismiss(current.username);
+        toast({ title: "Labelled", description: `u/${current.username} marked as ${label}` });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: (error instanceof Error && error.message) || "Failed to save label",
+          variant: "destructive"
+        });
+      }
+    },
+    [current, labelAccount, reviewer, note, dismiss, toast]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) {
+        // Leave the note field so the label shortcuts work again
+        if (event.key === "Escape" && event.target instanceof HTMLElement) event.target.blur();
+        return;
+      }
+      if (event.metaKey || event.ctrlKey || event.altKey || !current) return;
+
+      const key = event.key.toLowerCase();
+      const option = LABEL_OPTIONS.find((candidate) => candidate.shortcut === key);
+      if (option) {
+        event.preventDefault();
+        submitLabel(option.value);
+      } else if (key === "s") {
+        event.preventDefault();
+        skip(current.username);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [current, submitLabel, skip]);
+
+  const report = agreement.data?.agreement;
+  const workload = Object.entries(agreement.data?.workload ?? {});
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Review Queue</h1>
+          <p className="text-muted-foreground">Label flagged accounts to build ground truth for training and evaluation</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-8">
+          {/* Queue Settings */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="reviewer">Reviewer</Label>
+                <Input
+                  id="reviewer"
+                  placeholder="Your name"
+                  value={reviewer}
+                  onChange={(e) => setReviewer(e.target.value)}
+                  className="bg-input/50 border-border/50"
+                />
+              </div>
+              <div>
+                <Label htmlFor="min-probability">Minimum bot probability</Label>
+                <Input
+                  id="min-probability"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={minProbability}
+                  onChange={(e) => setMinProbability(Math.min(Math.max(Number(e.target.value) || 0, 0), 1))}
+                  className="bg-input/50 border-border/50"
+                />
+              </div>
+              <div>
+                <Label>Order</Label>
+                <Select value={order} onValueChange={(value) => setOrder(value as QueueOrder)}>
+                  <SelectTrigger className="bg-input/50 border-border/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="uncertainty">Most uncertain first</SelectItem>
+                    <SelectItem value="priority">Clustered, then highest score</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!reviewer.trim() && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Without a reviewer name only accounts nobody has labelled are shown, and labels are not counted towards agreement.
+              </p>
+            )}
+          </Card>
+
+          {/* Current Account */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+            {queue.isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading queue...</p>
+            ) : queue.error ? (
+              <p className="text-sm text-destructive">Failed to load queue: {queue.error.message}</p>
+            ) : !current ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>Nothing left to review above {formatProbability(minProbability)}.</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center gap-3">
+                  <Link to={`/accounts/${current.username}`} className="text-2xl font-semibold font-mono hover:underline">
+                    u/{current.username}
+                  </Link>
+                  <Link to={`/accounts/${current.username}`} target="_blank" className="text-muted-foreground">
+                    <ExternalLink className="h-4 w-4" />
+                  </Link>
+                  <div className="ml-auto flex gap-2">
+                    {current.assigned && <Badge variant="outline">Assigned to you</Badge>}
+                    {current.in_cluster && (
+                      <Badge variant="secondary">
+                        <Network className="h-3 w-3 mr-1" />
+                        Clustered
+                      </Badge>
+                    )}
+                    {current.review_count > 0 && <Badge variant="outline">{current.review_count} prior labels</Badge>}
+                    <Badge variant={current.bot_probability > 0.7 ? "destructive" : "secondary"}>
+                      {formatProbability(current.bot_probability)} bot
+                    </Badge>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">Score Breakdown</h3>
+                    {explanation ? (
+                      <ScoreBreakdown explanation={explanation} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No breakdown stored for this verdict.</p>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">Risk Factors</h3>
+                    {(current.risk_factors ?? []).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">None recorded.</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm list-disc list-inside">
+                        {(current.risk_factors ?? []).map((factor) => (
+                          <li key={factor}>{factor}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="mt-4 text-xs text-muted-foreground">
+                      {current.detection_method.replace(/_/g, " ")} · confidence {formatProbability(current.confidence_score)} ·{" "}
+                      {new Date(current.analysis_timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="note">Note</Label>
+                  <Textarea
+                    id="note"
+                    placeholder="What gave it away? (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="bg-input/50 border-border/50"
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {LABEL_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant={option.value === "bot" ? "destructive" : option.value === "human" ? "default" : "secondary"}
+                      onClick={() => submitLabel(option.value)}
+                      disabled={labelAccount.isPending}
+                    >
+                      {option.label}
+                      <kbd className="ml-2 rounded border border-current px-1 text-xs opacity-70">{option.shortcut.toUpperCase()}</kbd>
+                    </Button>
+                  ))}
+                  <Button variant="ghost" onClick={() => skip(current.username)}>
+                    <SkipForward className="h-4 w-4 mr-2" />
+                    Skip
+                    <kbd className="ml-2 rounded border border-current px-1 text-xs opacity-70">S</kbd>
+                  </Button>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {(queue.data?.remaining ?? 0) - ((queue.data?.items.length ?? 0) - pending.length)} waiting · Esc leaves the note field
+                  </span>
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+
+        {/* Reviewer Agreement */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm h-fit">
+          <div className="flex items-center gap-2 mb-4">
+            <Users className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Reviewer Agreement</h2>
+          </div>
+          {agreement.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : agreement.error || !report ? (
+            <p className="text-sm text-destructive">Failed to load agreement: {agreement.error?.message ?? "unknown error"}</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold">{report.accounts_with_multiple_reviews}</p>
+                  <p className="text-xs text-muted-foreground">Accounts with 2+ reviewers</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{formatProbability(report.observed_agreement)}</p>
+                  <p className="text-xs text-muted-foreground">Observed agreement</p>
+                </div>
+              </div>
+
+              {report.pairs.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reviewers</TableHead>
+                      <TableHead className="text-right">Shared</TableHead>
+                      <TableHead className="text-right">Agree</TableHead>
+                      <TableHead className="text-right">κ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.pairs.map((pair) => (
+                      <TableRow key={pair.reviewers.join("|")}>
+                        <TableCell className="text-xs">{pair.reviewers.join(" / ")}</TableCell>
+                        <TableCell className="text-right text-xs">{pair.shared_accounts}</TableCell>
+                        <TableCell className="text-right text-xs">{formatProbability(pair.agreement)}</TableCell>
+                        <TableCell className="text-right text-xs">{pair.kappa === null ? "—" : pair.kappa.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {report.disputed.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Disputed ({report.disputed.length})</h3>
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {report.disputed.map((dispute) => (
+                      <div key={dispute.username} className="rounded-md border border-border/50 p-2 text-xs space-y-1">
+                        <Link to={`/accounts/${dispute.username}`} className="font-mono hover:underline">
+                          u/{dispute.username}
+                        </Link>
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(dispute.labels).map(([name, label]) => (
+                            <Badge key={name} variant={labelVariant(label)}>
+                              {name}: {label}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {workload.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Assignments</h3>
+                  <div className="space-y-1 text-xs">
+                    {workload.map(([name, counts]) => (
+                      <div key={name} className="flex justify-between">
+                        <span>{name}</span>
+                        <span className="text-muted-foreground">
+                          {counts.done} done · {counts.pending} pending
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { cn } from "@/lib/utils";
+
+export interface FeatureContribution {
+  feature: string;
+  value: number;
+  percentile: number | null;
+  contribution: number;
+}
+
+export interface ScoreExplanation {
+  method: string;
+  baseline: number;
+  score: number;
+  contributions: FeatureContribution[];
+}
+
+interface ScoreBreakdownProps {
+  explanation: ScoreExplanation;
+  maxFeatures?: number;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  account_age_days: "Account age (days)",
+  comment_karma: "Comment karma",
+  link_karma: "Link karma",
+  karma_ratio: "Comment karma share",
+  posting_frequency: "Posts per day",
+  avg_post_score: "Average post score",
+  post_comment_ratio: "Post/comment ratio",
+  is_verified: "Verified",
+  has_verified_email: "Verified email",
+  is_premium: "Premium",
+  interval_median_seconds: "Median gap (s)",
+  burstiness: "Burstiness",
+  hour_of_day_entropy: "Hour-of-day spread",
+  day_of_week_entropy: "Day-of-week spread",
+  longest_awake_span_hours: "Longest active span (h)",
+  exact_minute_periodicity: "Exact-minute gaps",
+  self_duplication_ratio: "Self-duplicated text",
+  cross_account_duplicate_count: "Accounts sharing text",
+  username_entropy: "Username entropy",
+  digit_suffix_length: "Username digit suffix",
+  templated_username: "Templated username",
+  template_sibling_count: "Template siblings",
+  isolation_forest_anomaly: "Anomaly score",
+};
+
+const formatValue = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+
+const ordinal = (n: number) => {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+// Signed bars around a zero line: right (red) pushes towards bot, left (green) towards human
+export const ScoreBreakdown = ({ explanation, maxFeatures = 6 }: ScoreBreakdownProps) => {
+  const shown = explanation.contributions
+    .filter((item) => Math.abs(item.contribution) >= 0.005)
+    .slice(0, maxFeatures);
+
+  if (shown.length === 0) {
+    return <p className="text-xs text-muted-foreground">No single feature moved this score.</p>;
+  }
+
+  const scale = Math.max(...shown.map((item) => Math.abs(item.contribution)));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Baseline {(explanation.baseline * 100).toFixed(0)}%</span>
+        <span>Score {(explanation.score * 100).toFixed(1)}%</span>
+      </div>
+      {shown.map((item) => {
+        const width = `${(Math.abs(item.contribution) / scale) * 50}%`;
+        const positive = item.contribution > 0;
+        return (
+          <div key={item.feature} className="grid grid-cols-[9rem_1fr_3.5rem] items-center gap-2 text-xs">
+            <span className="truncate" title={item.feature}>
+              {FEATURE_LABELS[item.feature] ?? item.feature}
+              <span className="text-muted-foreground">
+                {" "}
+                {formatValue(item.value)}
+                {item.percentile !== null && ` · ${ordinal(Math.round(item.percentile))} pct`}
+              </span>
+            </span>
+            <div className="relative h-2 rounded bg-muted">
+              <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+              <div
+                className={cn(
+                  "absolute inset-y-0 rounded",
+                  positive ? "left-1/2 bg-destructive" : "right-1/2 bg-success"
+                )}
+                style={{ width }}
+              />
+            </div>
+            <span className={cn("text-right font-mono", positive ? "text-destructive" : "text-success")}>
+              {positive ? "+" : ""}
+              {(item.contribution * 100).toFixed(1)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { downloadFile, toCsv } from "@/lib/export";
+import { ArrowDownRight, ArrowLeft, ArrowUpRight, Download, GitCompare, Network, UserPlus, BarChart3 } from "lucide-react";
+
+interface SessionSummary {
+  id: string;
+  session_name: string;
+  subreddit: string;
+  status: string;
+  started_at: string;
+}
+
+interface ThresholdCrossing {
+  username: string;
+  direction: "became_bot" | "cleared";
+  base_probability: number;
+  target_probability: number;
+}
+
+interface ClusterGrowth {
+  target_cluster_id: string;
+  base_cluster_id: string | null;
+  base_size: number;
+  target_size: number;
+  added_members: string[];
+  removed_members: string[];
+}
+
+interface FeatureShift {
+  feature: string;
+  base_mean: number;
+  target_mean: number;
+  base_median: number;
+  target_median: number;
+  mean_delta: number;
+  ks_statistic: number;
+}
+
+interface Comparison {
+  threshold: number;
+  base_accounts: number;
+  target_accounts: number;
+  new_accounts: { username: string; bot_probability: number | null }[];
+  departed_accounts: string[];
+  threshold_crossings: ThresholdCrossing[];
+  clusters_grown: ClusterGrowth[];
+  new_clusters: ClusterGrowth[];
+  feature_shifts: FeatureShift[];
+}
+
+interface ComparisonResponse {
+  base_session: SessionSummary;
+  target_session: SessionSummary;
+  comparison: Comparison;
+}
+
+// A KS statistic above this is worth a reviewer's attention
+const NOTABLE_SHIFT = 0.2;
+
+const formatProbability = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatNumber = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(3));
+
+const sessionLabel = (session: SessionSummary) =>
+  `${session.session_name} · ${new Date(session.started_at).toLocaleDateString()}`;
+
+// One flat table covering every section, for spreadsheets and reports
+const comparisonToCsv = ({ comparison }: ComparisonResponse) =>
+  toCsv(
+    ["section", "subject", "detail", "base", "target", "change"],
+    [
+      ...comparison.new_accounts.map((account) => [
+        "new_account", account.username, "bot_probability", null, account.bot_probability, null
+      ]),
+      ...comparison.departed_accounts.map((username) => ["departed_account", username, null, null, null, null]),
+      ...comparison.threshold_crossings.map((crossing) => [
+        "threshold_crossing", crossing.username, crossing.direction,
+        crossing.base_probability, crossing.target_probability, crossing.target_probability - crossing.base_probability
+      ]),
+      ...[...comparison.clusters_grown, ...comparison.new_clusters].map((cluster) => [
+        cluster.base_cluster_id ? "cluster_grown" : "new_cluster", cluster.target_cluster_id,
+        `added: ${cluster.added_members.join(" ")}`, cluster.base_size, cluster.target_size,
+        cluster.target_size - cluster.base_size
+      ]),
+      ...comparison.feature_shifts.map((shift) => [
+        "feature_shift", shift.feature, `ks=${shift.ks_statistic.toFixed(3)}`,
+        shift.base_mean, shift.target_mean, shift.mean_delta
+      ]),
+    ]
+  );
+
+export const SessionComparison = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [result, setResult] = useState<ComparisonResponse | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  const baseId = searchParams.get("base") ?? "";
+  const targetId = searchParams.get("target") ?? "";
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      const { data, error } = await supabase
+        .from("analysis_sessions")
+        .select("id, session_name, subreddit, status, started_at")
+        .eq("status", "completed")
+        .order("started_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching sessions:", error);
+        return;
+      }
+      setSessions(data || []);
+    };
+    fetchSessions();
+  }, []);
+
+  const runComparison = useCallback(async () => {
+    if (!baseId || !targetId) return;
+
+    setIsComparing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("analysis-session", {
+        body: { action: "compare", base_session_id: baseId, target_session_id: targetId }
+      });
+
+      if (error) throw error;
+      setResult(data);
+    } catch (error) {
+      console.error("Comparison error:", error);
+      toast({
+        title: "Comparison Failed",
+        description: error instanceof Error ? error.message : "Failed to compare sessions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  }, [baseId, targetId, toast]);
+
+  // The selected pair lives in the URL, so a comparison can be linked to
+  useEffect(() => {
+    runComparison();
+  }, [runComparison]);
+
+  const selectSession = (key: "base" | "target", id: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(key, id);
+    setSearchParams(next);
+  };
+
+  const exportName = result
+    ? `comparison-${result.base_session.subreddit}-${result.base_session.started_at.slice(0, 10)}-${result.target_session.started_at.slice(0, 10)}`
+    : "comparison";
+
+  const comparison = result?.comparison;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Compare Sessions</h1>
+          <p className="text-muted-foreground">What changed between two analyses</p>
+        </div>
+      </div>
+
+      <Card className="p-6 mb-8 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          {(["base", "target"] as const).map((key) => (
+            <div key={key}>
+              <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                {key === "base" ? "Baseline session" : "Compared session"}
+              </label>
+              <Select value={key === "base" ? baseId : targetId} onValueChange={(id) => selectSession(key, id)}>
+                <SelectTrigger className="bg-input/50 border-border/50">
+                  <SelectValue placeholder="Select a completed session" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {sessionLabel(session)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={!result}
+              onClick={() => result && downloadFile(`${exportName}.csv`, comparisonToCsv(result), "text/csv")}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              disabled={!result}
+              onClick={() => result && downloadFile(`${exportName}.json`, JSON.stringify(result, null, 2), "application/json")}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+        {isComparing && <p className="text-sm text-muted-foreground mt-4">Comparing sessions...</p>}
+      </Card>
+
+      {comparison && result && (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <Card className="p-4 border-border/50 bg-gradient-cyber">
+              <p className="text-sm text-muted-foreground">Accounts</p>
+              <p className="text-2xl font-bold">
+                {comparison.base_accounts} → {comparison.target_accounts}
+              </p>
+            </Card>
+            <Card className="p-4 border-border/50 bg-gradient-cyber">
+              <p className="text-sm text-muted-foreground">New Accounts</p>
+              <p className="text-2xl font-bold">{comparison.new_accounts.length}</p>
+            </Card>
+            <Card className="p-4 border-border/50 bg-gradient-cyber">
+              <p className="text-sm text-muted-foreground">Crossed {formatProbability(comparison.threshold)}</p>
+              <p className="text-2xl font-bold">{comparison.threshold_crossings.length}</p>
+            </Card>
+            <Card className="p-4 border-border/50 bg-gradient-cyber">
+              <p className="text-sm text-muted-foreground">Clusters Grown / New</p>
+              <p className="text-2xl font-bold">
+                {comparison.clusters_grown.length} / {comparison.new_clusters.length}
+              </p>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Threshold Crossings */}
+            <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+              <div className="flex items-center gap-2 mb-4">
+                <GitCompare className="h-5 w-5 text-primary" />
+                <h2 className="text-xl font-semibold">Threshold Crossings</h2>
+              </div>
+              {comparison.threshold_crossings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No account changed sides.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead className="text-right">Probability</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.threshold_crossings.map((crossing) => (
+                      <TableRow key={crossing.username}>
+                        <TableCell className="font-medium">
+                          <Link to={`/accounts/${crossing.username}`} className="hover:underline">u/{crossing.username}</Link>
+                        </TableCell>
+                        <TableCell>
+                          {crossing.direction === "became_bot" ? (
+                            <Badge variant="destructive">
+                              <ArrowUpRight className="h-3 w-3 mr-1" />
+                              Became bot
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">
+                              <ArrowDownRight className="h-3 w-3 mr-1" />
+                              Cleared
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right text-xs">
+                          {formatProbability(crossing.base_probability)} → {formatProbability(crossing.target_probability)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+
+            {/* New Accounts */}
+            <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+              <div className="flex items-center gap-2 mb-4">
+                <UserPlus className="h-5 w-5 text-primary" />
+                <h2 className="text-xl font-semibold">New Accounts</h2>
+              </div>
+              {comparison.new_accounts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No accounts appeared since the baseline.</p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="text-right">Bot Probability</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparison.new_accounts.map((account) => (
+                        <TableRow key={account.username}>
+                          <TableCell className="font-medium">
+                            <Link to={`/accounts/${account.username}`} className="hover:underline">u/{account.username}</Link>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {account.bot_probability === null ? (
+                              <span className="text-xs text-muted-foreground">Not scored</span>
+                            ) : (
+                              <Badge variant={account.bot_probability > comparison.threshold ? "destructive" : "outline"}>
+                                {formatProbability(account.bot_probability)}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {comparison.departed_accounts.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-4">
+                  {comparison.departed_accounts.length} accounts from the baseline did not appear again.
+                </p>
+              )}
+            </Card>
+          </div>
+
+          {/* Cluster Growth */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+            <div className="flex items-center gap-2 mb-4">
+              <Network className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-semibold">Coordinated Clusters</h2>
+            </div>
+            {comparison.clusters_grown.length + comparison.new_clusters.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No cluster grew or appeared.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cluster</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Added Members</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...comparison.clusters_grown, ...comparison.new_clusters].map((cluster) => (
+                    <TableRow key={cluster.target_cluster_id}>
+                      <TableCell>
+                        <Badge variant={cluster.base_cluster_id ? "outline" : "secondary"}>
+                          {cluster.base_cluster_id ? "Grown" : "New"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {cluster.base_size} → {cluster.target_size}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {cluster.added_members.map((member) => `u/${member}`).join(", ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+
+          {/* Feature Shifts */}
+          <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+            <div className="flex items-center gap-2 mb-4">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              <h2 className="text-xl font-semibold">Feature Distribution Shifts</h2>
+            </div>
+            {comparison.feature_shifts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not enough scored accounts in both sessions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Feature</TableHead>
+                    <TableHead className="text-right">Mean</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                    <TableHead className="text-right">KS</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.feature_shifts.map((shift) => (
+                    <TableRow key={shift.feature}>
+                      <TableCell className="font-medium">{shift.feature.replace(/_/g, " ")}</TableCell>
+                      <TableCell className="text-right text-xs">
+                        {formatNumber(shift.base_mean)} → {formatNumber(shift.target_mean)}
+                      </TableCell>
+                      <TableCell className="text-right text-xs">
+                        {formatNumber(shift.base_median)} → {formatNumber(shift.target_median)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={shift.ks_statistic >= NOTABLE_SHIFT ? "destructive" : "outline"}>
+                          {shift.ks_statistic.toFixed(2)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AnalysisProgress } from "@/components/AnalysisProgress";
+import { PIPELINE_STAGE_LABELS, useSession } from "@/hooks/use-sessions";
+import { formatDuration, formatSessionStatus, isSessionRunning, sessionStatusVariant } from "@/lib/sessions";
+import { AlertTriangle, ArrowLeft, Bot, Clock, Settings, Users } from "lucide-react";
+
+interface SessionDetailProps {
+  sessionId: string;
+}
+
+const formatProbability = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const SessionDetail = ({ sessionId }: SessionDetailProps) => {
+  const { data, isLoading, error, refetch } = useSession(sessionId);
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background p-6 text-muted-foreground">Loading session...</div>;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <Alert className="border-destructive/50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>Failed to load session: {error?.message ?? "not found"}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { session, results, jobs, progress } = data;
+  const isRunning = isSessionRunning(session.status, jobs);
+  const parameters = Object.entries((session.analysis_parameters as Record<string, unknown> | null) ?? {});
+  const errorCount = progress.reduce((sum, stage) => sum + stage.error_count, 0);
+  const rateLimitWaits = progress.reduce((sum, stage) => sum + stage.rate_limit_waits, 0);
+  const failedJobs = jobs.filter((job) => job.error_message);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/sessions">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">{session.session_name}</h1>
+          <p className="text-muted-foreground">
+            r/{session.subreddit} · started {new Date(session.started_at).toLocaleString()}
+          </p>
+        </div>
+        <Badge variant={sessionStatusVariant(session.status)} className="ml-auto">
+          {formatSessionStatus(session.status)}
+        </Badge>
+      </div>
+
+      {session.error_message && (
+        <Alert className="mb-6 border-destructive/50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{session.error_message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+        <Card className="p-4 border-border/50 bg-gradient-cyber">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Users className="h-4 w-4" /> Accounts Analyzed
+          </div>
+          <p className="text-2xl font-bold">{session.total_accounts_analyzed ?? 0}</p>
+        </Card>
+        <Card className="p-4 border-border/50 bg-gradient-cyber">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Bot className="h-4 w-4" /> Bots Detected
+          </div>
+          <p className="text-2xl font-bold text-destructive">{session.bots_detected ?? 0}</p>
+        </Card>
+        <Card className="p-4 border-border/50 bg-gradient-cyber">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" /> Duration
+          </div>
+          <p className="text-2xl font-bold">{formatDuration(session.started_at, session.completed_at)}</p>
+        </Card>
+        <Card className="p-4 border-border/50 bg-gradient-cyber">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <AlertTriangle className="h-4 w-4" /> Errors / Rate-limit Waits
+          </div>
+          <p className="text-2xl font-bold">
+            {errorCount} / {rateLimitWaits}
+          </p>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        {/* Parameters */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+          <div className="flex items-center gap-2 mb-4">
+            <Settings className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Parameters</h2>
+          </div>
+          <dl className="space-y-2 text-sm">
+            {parameters.map(([key, value]) => (
+              <div key={key} className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">{key.replace(/_/g, " ")}</dt>
+                <dd className="font-mono text-xs text-right break-all">{String(value ?? "—")}</dd>
+              </div>
+            ))}
+          </dl>
+        </Card>
+
+        {/* Stage Timing */}
+        <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm lg:col-span-2">
+          <div className="flex items-center gap-2 mb-4">
+            <Clock className="h-5 w-5 text-primary" />
+            <h2 className="text-xl font-semibold">Stages</h2>
+          </div>
+          {isRunning ? (
+            <AnalysisProgress sessionId={session.id} onSessionUpdate={() => refetch()} />
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This session has not been run.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-medium">{PIPELINE_STAGE_LABELS[job.stage] ?? job.stage}</TableCell>
+                    <TableCell>
+                      <Badge variant={job.status === "failed" ? "destructive" : "outline"}>{job.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.attempts} / {job.max_attempts}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {job.started_at ? new Date(job.started_at).toLocaleTimeString() : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">{formatDuration(job.started_at, job.finished_at)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {failedJobs.length > 0 && (
+            <div className="mt-4 space-y-1">
+              {failedJobs.map((job) => (
+                <p key={job.id} className="text-xs text-destructive">
+                  {PIPELINE_STAGE_LABELS[job.stage] ?? job.stage}: {job.error_message}
+                </p>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Results */}
+      <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+        <div className="flex items-center gap-2 mb-4">
+          <Bot className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-semibold">Results ({results.length})</h2>
+        </div>
+        {results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts were scored in this session.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Bot Probability</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+                <TableHead>Risk Factors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow key={result.id}>
+                  <TableCell className="font-medium">
+                    <Link to={`/accounts/${result.username}`} className="hover:underline">u/{result.username}</Link>
+                  </TableCell>
+                  <TableCell className="text-xs">{result.detection_method.replace(/_/g, " ")}</TableCell>
+                  <TableCell className="font-mono text-xs">{result.model_version}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={result.bot_probability > 0.5 ? "destructive" : "outline"}>
+                      {formatProbability(result.bot_probability)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-xs">{formatProbability(result.confidence_score)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {((result.risk_factors as string[] | null) ?? []).join(", ")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useSessions } from "@/hooks/use-sessions";
+import { formatDuration, formatSessionStatus, sessionStatusVariant } from "@/lib/sessions";
+import { ArrowLeft, ChevronLeft, ChevronRight, History } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+const SESSION_STATUSES = [
+  "pending",
+  "queued",
+  "extracting_data",
+  "analyzing",
+  "coordinating",
+  "completed",
+  "failed",
+  "cancelled"
+];
+
+// "all" stands in for no filter, since a select item cannot have an empty value
+const ALL_STATUSES = "all";
+
+export const SessionList = () => {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState(ALL_STATUSES);
+  const [subreddit, setSubreddit] = useState("");
+  const [search, setSearch] = useState("");
+  const navigate = useNavigate();
+
+  const { data, isLoading, isFetching, error } = useSessions({
+    page,
+    pageSize: PAGE_SIZE,
+    status: status === ALL_STATUSES ? undefined : status,
+    subreddit: subreddit.trim(),
+    search: search.trim()
+  });
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.page_size), 1) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mb-8 flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Analysis Sessions</h1>
+          <p className="text-muted-foreground">Every analysis run, newest first</p>
+        </div>
+      </div>
+
+      <Card className="p-6 border-border/50 bg-gradient-cyber backdrop-blur-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+          <Input
+            placeholder="Search session names..."
+            value={search}
+            onChange={(e) => updateFilter(setSearch)(e.target.value)}
+            className="bg-input/50 border-border/50"
+          />
+          <Input
+            placeholder="Subreddit"
+            value={subreddit}
+            onChange={(e) => updateFilter(setSubreddit)(e.target.value)}
+            className="bg-input/50 border-border/50"
+          />
+          <Select value={status} onValueChange={updateFilter(setStatus)}>
+            <SelectTrigger className="bg-input/50 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {SESSION_STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-destructive">Failed to load sessions: {error.message}</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : data && data.sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <History className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No sessions match these filters.</p>
+          </div>
+        ) : (
+          <Table className={isFetching ? "opacity-60" : ""}>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Session</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead className="text-right">Accounts</TableHead>
+                <TableHead className="text-right">Bots</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.sessions.map((session) => (
+                <TableRow key={session.id} className="cursor-pointer" onClick={() => navigate(`/sessions/${session.id}`)}>
+                  <TableCell>
+                    <div className="font-medium">{session.session_name}</div>
+                    <div className="text-xs text-muted-foreground">r/{session.subreddit}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={sessionStatusVariant(session.status)}>
+                      {formatSessionStatus(session.status)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{new Date(session.started_at).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{formatDuration(session.started_at, session.completed_at)}</TableCell>
+                  <TableCell className="text-right">{session.total_accounts_analyzed ?? 0}</TableCell>
+                  <TableCell className="text-right">{session.bots_detected ?? 0}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          <p className="text-sm text-muted-foreground">
+            {data ? `${data.total} sessions · page ${page} of ${totalPages}` : ""}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
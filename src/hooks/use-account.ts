@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RedditAccount = Tables<"reddit_accounts">;
+export type RedditPost = Tables<"reddit_posts">;
+export type RedditComment = Tables<"reddit_comments">;
+export type DetectionResult = Tables<"bot_detection_results">;
+export type AccountLabel = Tables<"account_labels">;
+
+export interface ClusterMembership {
+  edge_weight: number;
+  cluster: Tables<"coordination_clusters">;
+}
+
+export interface AccountProfile {
+  account: RedditAccount | null;
+  posts: RedditPost[];
+  comments: RedditComment[];
+  // Oldest first, so it can be drawn as a history
+  results: DetectionResult[];
+  clusters: ClusterMembership[];
+  // Newest first
+  labels: AccountLabel[];
+}
+
+const fetchAccountProfile = async (username: string): Promise<AccountProfile> => {
+  const [account, posts, comments, results, memberships, labels] = await Promise.all([
+    supabase.from("reddit_accounts").select("*").eq("username", username).maybeSingle(),
+    supabase.from("reddit_posts").select("*").eq("author_username", username).order("created_utc", { ascending: false }),
+    supabase.from("reddit_comments").select("*").eq("author_username", username).order("created_utc", { ascending: false }),
+    supabase.from("bot_detection_results").select("*").eq("username", username).order("analysis_timestamp", { ascending: true }),
+    supabase
+      .from("coordination_cluster_members")
+      .select("edge_weight, coordination_clusters(*)")
+      .eq("username", username),
+    supabase.from("account_labels").select("*").eq("username", username).order("labelled_at", { ascending: false })
+  ]);
+
+  for (const response of [account, posts, comments, results, memberships, labels]) {
+    if (response.error) throw response.error;
+  }
+
+  return {
+    account: account.data,
+    posts: posts.data || [],
+    comments: comments.data || [],
+    results: results.data || [],
+    clusters: (memberships.data || [])
+      .filter((membership) => membership.coordination_clusters)
+      .map((membership) => ({
+        edge_weight: membership.edge_weight,
+        cluster: membership.coordination_clusters as Tables<"coordination_clusters">
+      })),
+    labels: labels.data || []
+  };
+};
+
+export const useAccountProfile = (username: string | undefined) =>
+  useQuery({
+    queryKey: ["account", username],
+    queryFn: () => fetchAccountProfile(username ?? ""),
+    enabled: !!username
+  });
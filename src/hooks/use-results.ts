@@ -0,0 +1,88 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ResultRow = Tables<"detection_result_rows">;
+
+export type ResultSortColumn =
+  | "bot_probability"
+  | "confidence_score"
+  | "account_age_days"
+  | "total_karma"
+  | "analysis_timestamp";
+
+export type VerdictBucket = "likely_bot" | "suspicious" | "likely_human";
+
+// Same cut-offs as the dashboard's status colours
+export const VERDICT_BUCKETS: Record<VerdictBucket, { label: string; min?: number; max?: number }> = {
+  likely_bot: { label: "Likely bot", min: 0.7 },
+  suspicious: { label: "Suspicious", min: 0.5, max: 0.7 },
+  likely_human: { label: "Likely human", max: 0.5 }
+};
+
+export interface ResultFilters {
+  verdict?: VerdictBucket;
+  riskFactor?: string;
+  method?: string;
+  subreddit?: string;
+  // yyyy-mm-dd, inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface ResultQuery {
+  page: number;
+  pageSize: number;
+  sortColumn: ResultSortColumn;
+  ascending: boolean;
+  filters: ResultFilters;
+}
+
+export interface ResultPage {
+  rows: ResultRow[];
+  total: number;
+}
+
+const fetchResults = async ({ page, pageSize, sortColumn, ascending, filters }: ResultQuery): Promise<ResultPage> => {
+  const from = (page - 1) * pageSize;
+
+  let query = supabase
+    .from("detection_result_rows")
+    .select("*", { count: "exact" })
+    .order(sortColumn, { ascending, nullsFirst: false })
+    // A stable tie-break keeps rows from jumping between pages
+    .order("id", { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (filters.verdict) {
+    const bucket = VERDICT_BUCKETS[filters.verdict];
+    if (bucket.min !== undefined) query = query.gt("bot_probability", bucket.min);
+    if (bucket.max !== undefined) query = query.lte("bot_probability", bucket.max);
+  }
+  if (filters.riskFactor) {
+    query = query.ilike("risk_factors_text", `%${filters.riskFactor}%`);
+  }
+  if (filters.method) {
+    query = query.eq("detection_method", filters.method);
+  }
+  if (filters.subreddit) {
+    query = query.ilike("subreddit", filters.subreddit);
+  }
+  if (filters.from) {
+    query = query.gte("analysis_timestamp", `${filters.from}T00:00:00Z`);
+  }
+  if (filters.to) {
+    query = query.lte("analysis_timestamp", `${filters.to}T23:59:59.999Z`);
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { rows: data || [], total: count ?? 0 };
+};
+
+export const useResults = (query: ResultQuery) =>
+  useQuery({
+    queryKey: ["results", query],
+    queryFn: () => fetchResults(query),
+    placeholderData: keepPreviousData
+  });
@@ -0,0 +1,97 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { LabelValue } from "@/lib/labels";
+
+export type QueueOrder = "uncertainty" | "priority";
+
+export interface QueueItem {
+  username: string;
+  bot_probability: number;
+  confidence_score: number;
+  detection_method: string;
+  risk_factors: string[] | null;
+  score_explanation: unknown;
+  analysis_timestamp: string;
+  assigned: boolean;
+  in_cluster: boolean;
+  review_count: number;
+}
+
+export interface ReviewerPairAgreement {
+  reviewers: [string, string];
+  shared_accounts: number;
+  agreement: number;
+  kappa: number | null;
+}
+
+export interface AgreementReport {
+  reviewers: string[];
+  accounts_with_multiple_reviews: number;
+  observed_agreement: number | null;
+  pairs: ReviewerPairAgreement[];
+  disputed: { username: string; labels: Record<string, LabelValue> }[];
+}
+
+export interface ReviewQueueQuery {
+  reviewer: string;
+  minProbability: number;
+  order: QueueOrder;
+  // Accounts to pass over from the head of the queue, e.g. ones skipped this sitting
+  offset: number;
+}
+
+const invokeReviewQueue = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("review-queue", { body });
+  if (error) throw error;
+  return data;
+};
+
+export const useReviewQueue = ({ reviewer, minProbability, order, offset }: ReviewQueueQuery) =>
+  useQuery({
+    queryKey: ["review-queue", reviewer, minProbability, order, offset],
+    queryFn: async (): Promise<{ items: QueueItem[]; remaining: number }> => {
+      const data = await invokeReviewQueue({
+        action: "queue",
+        reviewer: reviewer || undefined,
+        min_probability: minProbability,
+        order,
+        offset
+      });
+      return { items: data.items, remaining: data.remaining };
+    },
+    placeholderData: keepPreviousData
+  });
+
+export const useReviewerAgreement = () =>
+  useQuery({
+    queryKey: ["review-agreement"],
+    queryFn: async (): Promise<{ agreement: AgreementReport; workload: Record<string, { pending: number; done: number }> }> => {
+      const data = await invokeReviewQueue({ action: "agreement" });
+      return { agreement: data.agreement, workload: data.workload };
+    }
+  });
+
+export const useLabelAccount = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (params: { username: string; label: LabelValue; reviewer: string; note: string }) =>
+      invokeReviewQueue({ action: "label", ...params, reviewer: params.reviewer || undefined }),
+    onSuccess: (_data, { username }) => {
+      queryClient.invalidateQueries({ queryKey: ["review-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["review-agreement"] });
+      queryClient.invalidateQueries({ queryKey: ["results"] });
+      queryClient.invalidateQueries({ queryKey: ["account", username] });
+    }
+  });
+};
+
+export const useAssignReviewer = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (params: { usernames: string[]; reviewer: string }) => invokeReviewQueue({ action: "assign", ...params }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["review-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["review-agreement"] });
+    }
+  });
+};
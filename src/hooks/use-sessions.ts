@@ -0,0 +1,73 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { isSessionRunning } from "@/lib/sessions";
+
+export type AnalysisSession = Tables<"analysis_sessions">;
+export type AnalysisJob = Tables<"analysis_jobs">;
+export type StageProgress = Tables<"analysis_progress">;
+export type SessionResult = Tables<"bot_detection_results">;
+
+export interface SessionFilters {
+  page: number;
+  pageSize: number;
+  status?: string;
+  subreddit?: string;
+  search?: string;
+}
+
+export interface SessionPage {
+  sessions: AnalysisSession[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export interface SessionDetail {
+  session: AnalysisSession;
+  results: SessionResult[];
+  jobs: AnalysisJob[];
+  progress: StageProgress[];
+}
+
+export const PIPELINE_STAGE_LABELS: Record<string, string> = {
+  extract: "Extraction",
+  detect: "Bot detection",
+  coordinate: "Coordination analysis"
+};
+
+// How often a session that is still running is refetched
+const RUNNING_SESSION_REFETCH_MS = 5000;
+
+const invokeSessions = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("analysis-session", { body });
+  if (error) throw error;
+  return data as T;
+};
+
+export const useSessions = (filters: SessionFilters) =>
+  useQuery({
+    queryKey: ["sessions", filters],
+    queryFn: () =>
+      invokeSessions<SessionPage>({
+        action: "list",
+        page: filters.page,
+        page_size: filters.pageSize,
+        status: filters.status || undefined,
+        subreddit: filters.subreddit || undefined,
+        search: filters.search || undefined
+      }),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData
+  });
+
+export const useSession = (sessionId: string | undefined) =>
+  useQuery({
+    queryKey: ["session", sessionId],
+    queryFn: () => invokeSessions<SessionDetail>({ action: "get", session_id: sessionId }),
+    enabled: !!sessionId,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && isSessionRunning(data.session.status, data.jobs) ? RUNNING_SESSION_REFETCH_MS : false;
+    }
+  });
@@ -14,13 +14,175 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_labels: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          labelled_at: string
+          labeller: string | null
+          note: string | null
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          labelled_at?: string
+          labeller?: string | null
+          note?: string | null
+          username: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          labelled_at?: string
+          labeller?: string | null
+          note?: string | null
+          username?: string
+        }
+        Relationships: []
+      }
+      analysis_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          error_message: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          lease_expires_at: string | null
+          lease_owner: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_after: string
+          session_id: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error_message?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          lease_expires_at?: string | null
+          lease_owner?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_after?: string
+          session_id: string
+          stage: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error_message?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          lease_expires_at?: string | null
+          lease_owner?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_after?: string
+          session_id?: string
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_progress: {
+        Row: {
+          created_at: string
+          current_item: string | null
+          error_count: number
+          finished_at: string | null
+          id: string
+          items_done: number
+          items_total: number | null
+          message: string | null
+          rate_limit_waits: number
+          session_id: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_item?: string | null
+          error_count?: number
+          finished_at?: string | null
+          id?: string
+          items_done?: number
+          items_total?: number | null
+          message?: string | null
+          rate_limit_waits?: number
+          session_id: string
+          stage: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_item?: string | null
+          error_count?: number
+          finished_at?: string | null
+          id?: string
+          items_done?: number
+          items_total?: number | null
+          message?: string | null
+          rate_limit_waits?: number
+          session_id?: string
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_progress_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       analysis_sessions: {
         Row: {
           analysis_parameters: Json | null
           bots_detected: number | null
           completed_at: string | null
           created_at: string
+          error_message: string | null
+          extraction_checkpoint: Json
           id: string
+          last_completed_stage: string | null
+          pages_fetched: number | null
+          posts_extracted: number | null
           session_name: string
           started_at: string
           status: string | null
@@ -32,7 +194,12 @@ export type Database = {
           bots_detected?: number | null
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
+          extraction_checkpoint?: Json
           id?: string
+          last_completed_stage?: string | null
+          pages_fetched?: number | null
+          posts_extracted?: number | null
           session_name: string
           started_at?: string
           status?: string | null
@@ -44,7 +211,12 @@ export type Database = {
           bots_detected?: number | null
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
+          extraction_checkpoint?: Json
           id?: string
+          last_completed_stage?: string | null
+          pages_fetched?: number | null
+          posts_extracted?: number | null
           session_name?: string
           started_at?: string
           status?: string | null
@@ -53,6 +225,47 @@ export type Database = {
         }
         Relationships: []
       }
+      anomaly_models: {
+        Row: {
+          created_at: string
+          feature_names: Json
+          id: string
+          model: Json
+          model_type: string
+          parameters: Json | null
+          session_id: string | null
+          training_size: number
+        }
+        Insert: {
+          created_at?: string
+          feature_names: Json
+          id?: string
+          model: Json
+          model_type?: string
+          parameters?: Json | null
+          session_id?: string | null
+          training_size?: number
+        }
+        Update: {
+          created_at?: string
+          feature_names?: Json
+          id?: string
+          model?: Json
+          model_type?: string
+          parameters?: Json | null
+          session_id?: string | null
+          training_size?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "anomaly_models_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bot_detection_results: {
         Row: {
           analysis_timestamp: string
@@ -62,7 +275,10 @@ export type Database = {
           detection_method: string
           features_analyzed: Json | null
           id: string
+          model_version: string
           risk_factors: Json | null
+          score_explanation: Json | null
+          session_id: string | null
           updated_at: string
           username: string
         }
@@ -74,7 +290,10 @@ export type Database = {
           detection_method: string
           features_analyzed?: Json | null
           id?: string
+          model_version: string
           risk_factors?: Json | null
+          score_explanation?: Json | null
+          session_id?: string | null
           updated_at?: string
           username: string
         }
@@ -86,12 +305,301 @@ export type Database = {
           detection_method?: string
           features_analyzed?: Json | null
           id?: string
+          model_version?: string
           risk_factors?: Json | null
+          score_explanation?: Json | null
+          session_id?: string | null
           updated_at?: string
           username?: string
         }
         Relationships: []
       }
+      classifier_models: {
+        Row: {
+          created_at: string
+          feature_names: Json
+          id: string
+          model: Json
+          model_type: string
+          name: string
+          parameters: Json | null
+          training_metrics: Json | null
+          training_size: number
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          feature_names: Json
+          id?: string
+          model: Json
+          model_type?: string
+          name?: string
+          parameters?: Json | null
+          training_metrics?: Json | null
+          training_size?: number
+          version: number
+        }
+        Update: {
+          created_at?: string
+          feature_names?: Json
+          id?: string
+          model?: Json
+          model_type?: string
+          name?: string
+          parameters?: Json | null
+          training_metrics?: Json | null
+          training_size?: number
+          version?: number
+        }
+        Relationships: []
+      }
+      coordination_cluster_members: {
+        Row: {
+          cluster_id: string
+          created_at: string
+          edge_weight: number
+          id: string
+          username: string
+        }
+        Insert: {
+          cluster_id: string
+          created_at?: string
+          edge_weight?: number
+          id?: string
+          username: string
+        }
+        Update: {
+          cluster_id?: string
+          created_at?: string
+          edge_weight?: number
+          id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coordination_cluster_members_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: false
+            referencedRelation: "coordination_clusters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coordination_clusters: {
+        Row: {
+          created_at: string
+          density: number
+          evidence: Json
+          evidence_counts: Json
+          id: string
+          member_count: number
+          session_id: string | null
+          total_weight: number
+        }
+        Insert: {
+          created_at?: string
+          density: number
+          evidence: Json
+          evidence_counts: Json
+          id?: string
+          member_count: number
+          session_id?: string | null
+          total_weight: number
+        }
+        Update: {
+          created_at?: string
+          density?: number
+          evidence?: Json
+          evidence_counts?: Json
+          id?: string
+          member_count?: number
+          session_id?: string | null
+          total_weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coordination_clusters_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluation_runs: {
+        Row: {
+          accuracy: number
+          anomaly_model_id: string | null
+          classifier_model_id: string | null
+          confusion_matrix: Json
+          created_at: string
+          detection_method: string
+          f1_score: number
+          holdout_fraction: number
+          holdout_size: number
+          id: string
+          positives: number
+          pr_auc: number | null
+          precision: number
+          recall: number
+          requested_method: string
+          roc_auc: number | null
+          threshold: number
+          threshold_metrics: Json
+        }
+        Insert: {
+          accuracy: number
+          anomaly_model_id?: string | null
+          classifier_model_id?: string | null
+          confusion_matrix: Json
+          created_at?: string
+          detection_method: string
+          f1_score: number
+          holdout_fraction: number
+          holdout_size: number
+          id?: string
+          positives: number
+          pr_auc?: number | null
+          precision: number
+          recall: number
+          requested_method: string
+          roc_auc?: number | null
+          threshold: number
+          threshold_metrics: Json
+        }
+        Update: {
+          accuracy?: number
+          anomaly_model_id?: string | null
+          classifier_model_id?: string | null
+          confusion_matrix?: Json
+          created_at?: string
+          detection_method?: string
+          f1_score?: number
+          holdout_fraction?: number
+          holdout_size?: number
+          id?: string
+          positives?: number
+          pr_auc?: number | null
+          precision?: number
+          recall?: number
+          requested_method?: string
+          roc_auc?: number | null
+          threshold?: number
+          threshold_metrics?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluation_runs_anomaly_model_id_fkey"
+            columns: ["anomaly_model_id"]
+            isOneToOne: false
+            referencedRelation: "anomaly_models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluation_runs_classifier_model_id_fkey"
+            columns: ["classifier_model_id"]
+            isOneToOne: false
+            referencedRelation: "classifier_models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monitor_runs: {
+        Row: {
+          created_at: string
+          id: string
+          message: string | null
+          monitor_id: string
+          scheduled_for: string
+          session_id: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          monitor_id: string
+          scheduled_for: string
+          session_id?: string | null
+          status: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          monitor_id?: string
+          scheduled_for?: string
+          session_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monitor_runs_monitor_id_fkey"
+            columns: ["monitor_id"]
+            isOneToOne: false
+            referencedRelation: "monitors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "monitor_runs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monitors: {
+        Row: {
+          crawl_user_history: boolean
+          created_at: string
+          cron_expression: string
+          detection_method: string
+          id: string
+          is_paused: boolean
+          last_run_at: string | null
+          max_posts: number
+          name: string
+          next_run_at: string | null
+          sort: string
+          subreddit: string
+          t: string
+          updated_at: string
+        }
+        Insert: {
+          crawl_user_history?: boolean
+          created_at?: string
+          cron_expression: string
+          detection_method?: string
+          id?: string
+          is_paused?: boolean
+          last_run_at?: string | null
+          max_posts?: number
+          name: string
+          next_run_at?: string | null
+          sort?: string
+          subreddit: string
+          t?: string
+          updated_at?: string
+        }
+        Update: {
+          crawl_user_history?: boolean
+          created_at?: string
+          cron_expression?: string
+          detection_method?: string
+          id?: string
+          is_paused?: boolean
+          last_run_at?: string | null
+          max_posts?: number
+          name?: string
+          next_run_at?: string | null
+          sort?: string
+          subreddit?: string
+          t?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       reddit_accounts: {
         Row: {
           account_age_days: number | null
@@ -230,12 +738,118 @@ export type Database = {
         }
         Relationships: []
       }
+      review_assignments: {
+        Row: {
+          assigned_at: string
+          completed_at: string | null
+          created_at: string
+          id: string
+          reviewer: string
+          status: string
+          username: string
+        }
+        Insert: {
+          assigned_at?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          reviewer: string
+          status?: string
+          username: string
+        }
+        Update: {
+          assigned_at?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          reviewer?: string
+          status?: string
+          username?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      detection_result_rows: {
+        Row: {
+          account_age_days: number | null
+          analysis_timestamp: string | null
+          analyst_label: string | null
+          bot_probability: number | null
+          comment_karma: number | null
+          confidence_score: number | null
+          detection_method: string | null
+          id: string | null
+          link_karma: number | null
+          model_version: string | null
+          risk_factors: Json | null
+          risk_factors_text: string | null
+          session_id: string | null
+          session_name: string | null
+          subreddit: string | null
+          total_karma: number | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      latest_bot_verdicts: {
+        Row: {
+          analysis_timestamp: string | null
+          bot_probability: number | null
+          confidence_score: number | null
+          created_at: string | null
+          detection_method: string | null
+          features_analyzed: Json | null
+          id: string | null
+          model_version: string | null
+          risk_factors: Json | null
+          score_explanation: Json | null
+          session_id: string | null
+          updated_at: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_analysis_job: {
+        Args: { p_lease_seconds?: number; p_worker_id: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          error_message: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          lease_expires_at: string | null
+          lease_owner: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_after: string
+          session_id: string
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      review_queue_candidates: {
+        Args: { p_min_probability?: number; p_reviewer?: string }
+        Returns: {
+          analysis_timestamp: string
+          assigned: boolean
+          bot_probability: number
+          confidence_score: number
+          detection_method: string
+          in_cluster: boolean
+          review_count: number
+          risk_factors: Json
+          score_explanation: Json
+          uncertainty: number
+          username: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,17 @@
+export type LabelValue = "bot" | "human" | "unsure";
+
+// Keyboard shortcut for each label in the review queue
+export const LABEL_OPTIONS: { value: LabelValue; label: string; shortcut: string }[] = [
+  { value: "bot", label: "Bot", shortcut: "b" },
+  { value: "human", label: "Human", shortcut: "h" },
+  { value: "unsure", label: "Unsure", shortcut: "u" }
+];
+
+export const labelVariant = (label: string | null) => {
+  if (label === "bot") return "destructive";
+  if (label === "human") return "default";
+  return "secondary";
+};
+
+// The review queue and bulk assignment share the reviewer name entered last
+export const REVIEWER_STORAGE_KEY = "review-queue-reviewer";
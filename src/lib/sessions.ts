@@ -0,0 +1,27 @@
+// A session in any other status still has pipeline work ahead of it
+export const TERMINAL_SESSION_STATUSES = ["completed", "failed", "cancelled"];
+
+// Jobs a worker will still pick up or is running
+export const LIVE_JOB_STATUSES = ["queued", "running"];
+
+// A session is only in progress while it has work queued or underway; a
+// pending session with no jobs has simply never been run
+export const isSessionRunning = (status: string | null, jobs: { status: string }[]) =>
+  status === "running" || jobs.some((job) => LIVE_JOB_STATUSES.includes(job.status));
+
+export const formatSessionStatus = (status: string | null) => (status ?? "pending").replace(/_/g, " ");
+
+export const sessionStatusVariant = (status: string | null) => {
+  if (status === "failed") return "destructive";
+  if (status === "completed") return "default";
+  if (status === "cancelled") return "secondary";
+  return "outline";
+};
+
+export const formatDuration = (start: string | null, end: string | null) => {
+  if (!start || !end) return "—";
+  const seconds = Math.max(Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000), 0);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
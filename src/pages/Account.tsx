@@ -0,0 +1,9 @@
+import { useParams } from "react-router-dom";
+import { AccountProfile } from "@/components/AccountProfile";
+
+const Account = () => {
+  const { username } = useParams();
+  return <AccountProfile username={username ?? ""} />;
+};
+
+export default Account;
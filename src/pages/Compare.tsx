@@ -0,0 +1,7 @@
+import { SessionComparison } from "@/components/SessionComparison";
+
+const Compare = () => {
+  return <SessionComparison />;
+};
+
+export default Compare;
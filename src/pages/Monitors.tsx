@@ -0,0 +1,7 @@
+import { MonitorManager } from "@/components/MonitorManager";
+
+const Monitors = () => {
+  return <MonitorManager />;
+};
+
+export default Monitors;
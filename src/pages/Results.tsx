@@ -0,0 +1,7 @@
+import { ResultsTable } from "@/components/ResultsTable";
+
+const Results = () => {
+  return <ResultsTable />;
+};
+
+export default Results;
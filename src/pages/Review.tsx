@@ -0,0 +1,7 @@
+import { ReviewQueue } from "@/components/ReviewQueue";
+
+const Review = () => {
+  return <ReviewQueue />;
+};
+
+export default Review;
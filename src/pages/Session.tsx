@@ -0,0 +1,9 @@
+import { useParams } from "react-router-dom";
+import { SessionDetail } from "@/components/SessionDetail";
+
+const Session = () => {
+  const { id } = useParams();
+  return <SessionDetail sessionId={id ?? ""} />;
+};
+
+export default Session;
@@ -0,0 +1,7 @@
+import { SessionList } from "@/components/SessionList";
+
+const Sessions = () => {
+  return <SessionList />;
+};
+
+export default Sessions;
@@ -0,0 +1,68 @@
+// Fixture format shared by the fake Reddit server and the recorder.
+//
+// A fixture file maps normalised request keys ("GET /r/AskReddit/hot?limit=100")
+// to the JSON body Reddit returned for that request.
+
+export interface RedditFixture {
+  recorded_at: string;
+  description?: string;
+  responses: Record<string, unknown>;
+}
+
+// Query parameters that never change the response body
+const IGNORED_PARAMS = ['raw_json'];
+
+export function fixtureKey(method: string, url: URL): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !IGNORED_PARAMS.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = new URLSearchParams(params).toString();
+  const path = url.pathname.replace(/\/$/, '');
+  return query ? `${method} ${path}?${query}` : `${method} ${path}`;
+}
+
+// Exact match first, then the same path and page with any other query string.
+// The `after` cursor always takes part in the match, so a later page can never
+// be answered with the first one.
+export function lookupFixture(fixture: RedditFixture, method: string, url: URL): unknown | undefined {
+  const key = fixtureKey(method, url);
+  if (key in fixture.responses) return fixture.responses[key];
+
+  const after = url.searchParams.get('after');
+  const path = url.pathname.replace(/\/$/, '');
+  const pageKey = after ? `${method} ${path}?${new URLSearchParams({ after })}` : `${method} ${path}`;
+  return fixture.responses[pageKey];
+}
+
+export async function loadFixture(path: string): Promise<RedditFixture> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path)) as RedditFixture;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return { recorded_at: new Date().toISOString(), responses: {} };
+    }
+    throw error;
+  }
+}
+
+export async function saveFixture(path: string, fixture: RedditFixture) {
+  await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+export function parseArgs(args: string[]): Record<string, string | boolean> {
+  const parsed: Record<string, string | boolean> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) continue;
+
+    const next = args[i + 1];
+    if (next && !next.startsWith('--')) {
+      parsed[arg.slice(2)] = next;
+      i++;
+    } else {
+      parsed[arg.slice(2)] = true;
+    }
+  }
+  return parsed;
+}
@@ -0,0 +1,71 @@
+// Recording proxy: forwards requests to the real Reddit API and stores every
+// successful JSON response in the fixture format replayed by server.ts; error
+// statuses and non-JSON bodies are forwarded without being recorded.
+//
+//   deno run --allow-net --allow-read --allow-write supabase/fake-reddit/recorder.ts \
+//     --fixtures supabase/fake-reddit/fixtures/askreddit.json --port 8788
+//
+// Point REDDIT_AUTH_BASE_URL and REDDIT_API_BASE_URL at the recorder and run a
+// normal analysis with real credentials. Tokens are forwarded but never saved.
+
+import { DEFAULT_API_BASE_URL, DEFAULT_AUTH_BASE_URL } from '../functions/_shared/reddit-client.ts';
+import { fixtureKey, loadFixture, parseArgs, saveFixture } from './fixtures.ts';
+
+const args = parseArgs(Deno.args);
+const fixturePath = String(args.fixtures ?? 'supabase/fake-reddit/fixtures/recording.json');
+const port = Number(args.port ?? 8788);
+
+const fixture = await loadFixture(fixturePath);
+fixture.recorded_at = new Date().toISOString();
+if (typeof args.description === 'string') fixture.description = args.description;
+
+// Serialise writes so concurrent requests cannot interleave partial files
+let pendingSave = Promise.resolve();
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+  const isTokenRequest = url.pathname === '/api/v1/access_token';
+  const upstream = new URL(`${url.pathname}${url.search}`, isTokenRequest ? DEFAULT_AUTH_BASE_URL : DEFAULT_API_BASE_URL);
+
+  const headers = new Headers();
+  for (const name of ['authorization', 'user-agent', 'content-type']) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const response = await fetch(upstream, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' ? undefined : await req.text(),
+  });
+  const body = await response.text();
+
+  if (response.ok && !isTokenRequest) {
+    const key = fixtureKey(req.method, url);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = undefined;
+    }
+
+    // Reddit sometimes answers with an HTML error page; pass it through but
+    // keep it out of the fixture
+    if (parsed === undefined) {
+      console.warn(`Skipped ${key}: response was not JSON (${response.headers.get('Content-Type') ?? 'no content type'})`);
+    } else {
+      fixture.responses[key] = parsed;
+      pendingSave = pendingSave.then(() => saveFixture(fixturePath, fixture));
+      await pendingSave;
+      console.log(`Recorded ${key}`);
+    }
+  }
+
+  const forwardedHeaders = new Headers({ 'Content-Type': response.headers.get('Content-Type') ?? 'application/json' });
+  for (const name of ['x-ratelimit-remaining', 'x-ratelimit-reset', 'x-ratelimit-used', 'retry-after']) {
+    const value = response.headers.get(name);
+    if (value) forwardedHeaders.set(name, value);
+  }
+
+  return new Response(body, { status: response.status, headers: forwardedHeaders });
+});
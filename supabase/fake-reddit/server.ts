@@ -0,0 +1,57 @@
+// Local stand-in for the Reddit API that replays recorded fixtures.
+//
+//   deno run --allow-net --allow-read supabase/fake-reddit/server.ts \
+//     --fixtures supabase/fake-reddit/fixtures/sample.json --port 8787
+//
+// Then serve the edge functions with
+//   REDDIT_AUTH_BASE_URL=http://host.docker.internal:8787
+//   REDDIT_API_BASE_URL=http://host.docker.internal:8787
+// and any non-empty REDDIT_CLIENT_ID/SECRET/USERNAME/PASSWORD.
+
+import { fixtureKey, loadFixture, lookupFixture, parseArgs } from './fixtures.ts';
+
+const args = parseArgs(Deno.args);
+const fixturePath = String(args.fixtures ?? 'supabase/fake-reddit/fixtures/sample.json');
+const port = Number(args.port ?? 8787);
+
+const fixture = await loadFixture(fixturePath);
+console.log(`Loaded ${Object.keys(fixture.responses).length} recorded responses from ${fixturePath}`);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      // Generous limits so the client never throttles during a replay
+      'X-Ratelimit-Remaining': '600',
+      'X-Ratelimit-Reset': '600',
+      'X-Ratelimit-Used': '0',
+    },
+  });
+}
+
+Deno.serve({ port }, (req) => {
+  const url = new URL(req.url);
+
+  // Any credentials are accepted; the token is never checked
+  if (req.method === 'POST' && url.pathname === '/api/v1/access_token') {
+    return json({
+      access_token: 'fake-reddit-token',
+      token_type: 'bearer',
+      expires_in: 86400,
+      scope: '*'
+    });
+  }
+
+  // A missing fixture is a gap in the recording, not a Reddit 404; answer with
+  // a status the client does not expect so the run fails instead of quietly
+  // ending pagination early
+  const body = lookupFixture(fixture, req.method, url);
+  if (body === undefined) {
+    const key = fixtureKey(req.method, url);
+    console.error(`No fixture recorded for ${key}`);
+    return json({ message: `No fixture recorded for ${key}`, error: 501 }, 501);
+  }
+
+  return json(body);
+});
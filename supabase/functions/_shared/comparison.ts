@@ -0,0 +1,258 @@
+// What changed between two analyses: accounts that appeared, verdicts that
+// crossed the bot threshold, coordination clusters that grew and features
+// whose distribution moved.
+
+import { ScoreExplanation } from './explanation.ts'
+
+export interface ComparedResult {
+  username: string;
+  bot_probability: number;
+  analysis_timestamp: string;
+  score_explanation: ScoreExplanation | null;
+}
+
+export interface ComparedCluster {
+  id: string;
+  members: string[];
+  density: number;
+}
+
+// What one session saw: the accounts it extracted and what it concluded about them
+export interface ComparedSession {
+  accounts: string[];
+  results: ComparedResult[];
+  clusters: ComparedCluster[];
+}
+
+export interface NewAccount {
+  username: string;
+  // null when the target session extracted the account but did not score it
+  bot_probability: number | null;
+}
+
+export interface ThresholdCrossing {
+  username: string;
+  direction: 'became_bot' | 'cleared';
+  base_probability: number;
+  target_probability: number;
+}
+
+export interface ClusterGrowth {
+  target_cluster_id: string;
+  base_cluster_id: string | null;
+  base_size: number;
+  target_size: number;
+  added_members: string[];
+  removed_members: string[];
+}
+
+export interface FeatureShift {
+  feature: string;
+  base_mean: number;
+  target_mean: number;
+  base_median: number;
+  target_median: number;
+  mean_delta: number;
+  // Largest gap between the two empirical CDFs (two-sample Kolmogorov-Smirnov)
+  ks_statistic: number;
+}
+
+export interface SessionComparison {
+  threshold: number;
+  base_accounts: number;
+  target_accounts: number;
+  new_accounts: NewAccount[];
+  departed_accounts: string[];
+  threshold_crossings: ThresholdCrossing[];
+  clusters_grown: ClusterGrowth[];
+  new_clusters: ClusterGrowth[];
+  feature_shifts: FeatureShift[];
+}
+
+// Below this many values per side a distribution comparison is mostly noise
+const MIN_FEATURE_SAMPLES = 5;
+
+// A session can hold several verdicts per account (one per method and model);
+// compare the most recent one
+export function latestByUsername(results: ComparedResult[]): Map<string, ComparedResult> {
+  const latest = new Map<string, ComparedResult>();
+  for (const result of results) {
+    const current = latest.get(result.username);
+    if (!current || result.analysis_timestamp > current.analysis_timestamp) {
+      latest.set(result.username, result);
+    }
+  }
+  return latest;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export function ksStatistic(a: number[], b: number[]): number {
+  const sortedA = [...a].sort((x, y) => x - y);
+  const sortedB = [...b].sort((x, y) => x - y);
+  let i = 0;
+  let j = 0;
+  let maxGap = 0;
+
+  while (i < sortedA.length && j < sortedB.length) {
+    const value = Math.min(sortedA[i], sortedB[j]);
+    while (i < sortedA.length && sortedA[i] === value) i++;
+    while (j < sortedB.length && sortedB[j] === value) j++;
+    maxGap = Math.max(maxGap, Math.abs(i / sortedA.length - j / sortedB.length));
+  }
+
+  return maxGap;
+}
+
+function featureValues(results: Iterable<ComparedResult>, featureNames: string[]): Map<string, number[]> {
+  const values = new Map<string, number[]>(featureNames.map(name => [name, []]));
+  for (const result of results) {
+    for (const contribution of result.score_explanation?.contributions ?? []) {
+      if (Number.isFinite(contribution.value)) {
+        values.get(contribution.feature)?.push(contribution.value);
+      }
+    }
+  }
+  return values;
+}
+
+export function compareFeatureDistributions(
+  base: Iterable<ComparedResult>,
+  target: Iterable<ComparedResult>,
+  featureNames: string[],
+): FeatureShift[] {
+  const baseValues = featureValues(base, featureNames);
+  const targetValues = featureValues(target, featureNames);
+  const shifts: FeatureShift[] = [];
+
+  for (const feature of featureNames) {
+    const a = baseValues.get(feature) ?? [];
+    const b = targetValues.get(feature) ?? [];
+    if (a.length < MIN_FEATURE_SAMPLES || b.length < MIN_FEATURE_SAMPLES) continue;
+
+    const sortedA = [...a].sort((x, y) => x - y);
+    const sortedB = [...b].sort((x, y) => x - y);
+    const baseMean = mean(a);
+    const targetMean = mean(b);
+
+    shifts.push({
+      feature,
+      base_mean: baseMean,
+      target_mean: targetMean,
+      base_median: median(sortedA),
+      target_median: median(sortedB),
+      mean_delta: targetMean - baseMean,
+      ks_statistic: ksStatistic(a, b),
+    });
+  }
+
+  return shifts.sort((x, y) => y.ks_statistic - x.ks_statistic);
+}
+
+// Each target cluster is matched to the base cluster it shares most members with
+export function compareClusters(base: ComparedCluster[], target: ComparedCluster[]) {
+  const grown: ClusterGrowth[] = [];
+  const created: ClusterGrowth[] = [];
+
+  for (const cluster of target) {
+    const members = new Set(cluster.members);
+    let match: ComparedCluster | null = null;
+    let bestOverlap = 0;
+
+    for (const candidate of base) {
+      const overlap = candidate.members.filter(member => members.has(member)).length;
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        match = candidate;
+      }
+    }
+
+    const baseMembers = new Set(match?.members ?? []);
+    const growth: ClusterGrowth = {
+      target_cluster_id: cluster.id,
+      base_cluster_id: match?.id ?? null,
+      base_size: baseMembers.size,
+      target_size: members.size,
+      added_members: cluster.members.filter(member => !baseMembers.has(member)).sort(),
+      removed_members: [...baseMembers].filter(member => !members.has(member)).sort(),
+    };
+
+    if (!match) {
+      created.push(growth);
+    } else if (growth.target_size > growth.base_size) {
+      grown.push(growth);
+    }
+  }
+
+  const bySize = (a: ClusterGrowth, b: ClusterGrowth) =>
+    (b.target_size - b.base_size) - (a.target_size - a.base_size);
+  return { grown: grown.sort(bySize), created: created.sort(bySize) };
+}
+
+// Results and cluster members outside the accounts a session extracted belong
+// to some other run, so they are left out of the comparison
+function scopeToAccounts(session: ComparedSession) {
+  const accounts = new Set(session.accounts);
+  return {
+    accounts,
+    results: latestByUsername(session.results.filter(result => accounts.has(result.username))),
+    clusters: session.clusters
+      .map(cluster => ({ ...cluster, members: cluster.members.filter(member => accounts.has(member)) }))
+      .filter(cluster => cluster.members.length > 0),
+  };
+}
+
+export function compareSessions(
+  baseSession: ComparedSession,
+  targetSession: ComparedSession,
+  featureNames: string[],
+  threshold = 0.5,
+): SessionComparison {
+  const base = scopeToAccounts(baseSession);
+  const target = scopeToAccounts(targetSession);
+
+  const newAccounts: NewAccount[] = [...target.accounts]
+    .filter(username => !base.accounts.has(username))
+    .map(username => ({ username, bot_probability: target.results.get(username)?.bot_probability ?? null }));
+  const crossings: ThresholdCrossing[] = [];
+
+  for (const [username, result] of target.results) {
+    const previous = base.results.get(username);
+    if (!previous) continue;
+
+    const wasBot = previous.bot_probability > threshold;
+    const isBot = result.bot_probability > threshold;
+    if (wasBot !== isBot) {
+      crossings.push({
+        username,
+        direction: isBot ? 'became_bot' : 'cleared',
+        base_probability: previous.bot_probability,
+        target_probability: result.bot_probability,
+      });
+    }
+  }
+
+  const departed = [...base.accounts].filter(username => !target.accounts.has(username)).sort();
+  const clusters = compareClusters(base.clusters, target.clusters);
+
+  return {
+    threshold,
+    base_accounts: base.accounts.size,
+    target_accounts: target.accounts.size,
+    // Unscored accounts last
+    new_accounts: newAccounts.sort((a, b) => (b.bot_probability ?? -1) - (a.bot_probability ?? -1)),
+    departed_accounts: departed,
+    threshold_crossings: crossings.sort((a, b) =>
+      Math.abs(b.target_probability - b.base_probability) - Math.abs(a.target_probability - a.base_probability)),
+    clusters_grown: clusters.grown,
+    new_clusters: clusters.created,
+    feature_shifts: compareFeatureDistributions(base.results.values(), target.results.values(), featureNames),
+  };
+}
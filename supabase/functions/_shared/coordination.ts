@@ -0,0 +1,262 @@
+// Coordinated inauthentic behaviour: an account-to-account graph built from
+// shared links, co-commenting and duplicated text, partitioned into tightly
+// coupled communities with weighted label propagation.
+
+import { DuplicateCluster } from './text-similarity.ts'
+
+export type EvidenceType = 'shared_url' | 'shared_domain' | 'co_comment' | 'duplicate_text';
+
+export interface CoordinationPost {
+  reddit_id: string;
+  author: string;
+  url: string | null;
+  domain: string | null;
+  is_self: boolean;
+}
+
+export interface CoordinationComment {
+  reddit_id: string;
+  author: string;
+  post_id: string;
+  created_utc: number;
+}
+
+export interface CoordinationEvidence {
+  type: EvidenceType;
+  accounts: [string, string];
+  detail: string;
+}
+
+export interface CoordinationEdge {
+  source: string;
+  target: string;
+  weight: number;
+  evidence: CoordinationEvidence[];
+}
+
+export interface CoordinationCluster {
+  members: string[];
+  // Share of member pairs that are directly linked
+  density: number;
+  total_weight: number;
+  evidence_counts: Record<EvidenceType, number>;
+  evidence: CoordinationEvidence[];
+  member_weights: Record<string, number>;
+}
+
+export interface CoordinationOptions {
+  coCommentWindowSeconds?: number;
+  minEdgeWeight?: number;
+  minClusterSize?: number;
+  minDensity?: number;
+  maxEvidencePerCluster?: number;
+}
+
+// How much one piece of evidence of each kind adds to an edge
+export const EVIDENCE_WEIGHTS: Record<EvidenceType, number> = {
+  shared_url: 1,
+  shared_domain: 0.25,
+  co_comment: 0.5,
+  duplicate_text: 1,
+};
+
+const DEFAULT_OPTIONS: Required<CoordinationOptions> = {
+  coCommentWindowSeconds: 10 * 60,
+  minEdgeWeight: 1,
+  minClusterSize: 2,
+  minDensity: 0.5,
+  maxEvidencePerCluster: 50,
+};
+
+// Links to these say nothing about coordination: everybody uses them
+const COMMON_DOMAINS = new Set([
+  'reddit.com',
+  'www.reddit.com',
+  'old.reddit.com',
+  'i.redd.it',
+  'v.redd.it',
+  'preview.redd.it',
+  'imgur.com',
+  'i.imgur.com',
+  'youtube.com',
+  'www.youtube.com',
+  'youtu.be',
+  'twitter.com',
+  'x.com',
+  'en.wikipedia.org',
+]);
+
+// Groups with more members than this are popular links, not rings
+const MAX_SHARED_GROUP_SIZE = 50;
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
+
+class EdgeBuilder {
+  readonly edges = new Map<string, CoordinationEdge>();
+
+  add(a: string, b: string, type: EvidenceType, detail: string) {
+    if (a === b) return;
+    const key = pairKey(a, b);
+    const [source, target] = a < b ? [a, b] : [b, a];
+    const edge = this.edges.get(key) ?? { source, target, weight: 0, evidence: [] };
+    edge.weight += EVIDENCE_WEIGHTS[type];
+    edge.evidence.push({ type, accounts: [source, target], detail });
+    this.edges.set(key, edge);
+  }
+
+  // Link every pair of distinct authors in a group
+  addGroup(authors: string[], type: EvidenceType, detail: string) {
+    const unique = [...new Set(authors)];
+    if (unique.length < 2 || unique.length > MAX_SHARED_GROUP_SIZE) return;
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        this.add(unique[i], unique[j], type, detail);
+      }
+    }
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!k) continue;
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+export function buildCoordinationGraph(
+  posts: CoordinationPost[],
+  comments: CoordinationComment[],
+  duplicateClusters: DuplicateCluster[],
+  options: CoordinationOptions = {},
+): CoordinationEdge[] {
+  const { coCommentWindowSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  const builder = new EdgeBuilder();
+  const linkPosts = posts.filter(post => !post.is_self && post.url);
+
+  for (const [url, group] of groupBy(linkPosts, post => post.url)) {
+    builder.addGroup(group.map(post => post.author), 'shared_url', url);
+  }
+
+  for (const [domain, group] of groupBy(linkPosts, post => post.domain && !COMMON_DOMAINS.has(post.domain) ? post.domain : null)) {
+    builder.addGroup(group.map(post => post.author), 'shared_domain', domain);
+  }
+
+  // Two accounts replying in the same thread within a few minutes of each other
+  for (const [postId, group] of groupBy(comments, comment => comment.post_id)) {
+    const sorted = [...group].sort((a, b) => a.created_utc - b.created_utc);
+    const linked = new Set<string>();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length && sorted[j].created_utc - sorted[i].created_utc <= coCommentWindowSeconds; j++) {
+        const a = sorted[i].author;
+        const b = sorted[j].author;
+        const key = pairKey(a, b);
+        if (a === b || linked.has(key)) continue;
+        linked.add(key);
+        builder.add(a, b, 'co_comment', postId);
+      }
+    }
+  }
+
+  for (const cluster of duplicateClusters) {
+    builder.addGroup(cluster.authors, 'duplicate_text', cluster.document_ids.slice(0, 5).join(','));
+  }
+
+  return [...builder.edges.values()];
+}
+
+// Weighted label propagation in a fixed (sorted) order so results are reproducible
+function labelPropagation(nodes: string[], adjacency: Map<string, Map<string, number>>, maxIterations = 20) {
+  const labels = new Map(nodes.map(node => [node, node]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    for (const node of nodes) {
+      const scores = new Map<string, number>();
+      for (const [neighbour, weight] of adjacency.get(node) ?? []) {
+        const label = labels.get(neighbour)!;
+        scores.set(label, (scores.get(label) ?? 0) + weight);
+      }
+      if (scores.size === 0) continue;
+
+      // Highest total weight wins; ties go to the smallest label
+      let best = labels.get(node)!;
+      let bestScore = scores.get(best) ?? -1;
+      for (const [label, score] of scores) {
+        if (score > bestScore || (score === bestScore && label < best)) {
+          best = label;
+          bestScore = score;
+        }
+      }
+
+      if (best !== labels.get(node)) {
+        labels.set(node, best);
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  return labels;
+}
+
+export function detectCoordinatedClusters(
+  edges: CoordinationEdge[],
+  options: CoordinationOptions = {},
+): CoordinationCluster[] {
+  const { minEdgeWeight, minClusterSize, minDensity, maxEvidencePerCluster } = { ...DEFAULT_OPTIONS, ...options };
+  const strongEdges = edges.filter(edge => edge.weight >= minEdgeWeight);
+
+  const adjacency = new Map<string, Map<string, number>>();
+  for (const edge of strongEdges) {
+    if (!adjacency.has(edge.source)) adjacency.set(edge.source, new Map());
+    if (!adjacency.has(edge.target)) adjacency.set(edge.target, new Map());
+    adjacency.get(edge.source)!.set(edge.target, edge.weight);
+    adjacency.get(edge.target)!.set(edge.source, edge.weight);
+  }
+
+  const nodes = [...adjacency.keys()].sort();
+  const labels = labelPropagation(nodes, adjacency);
+  const communities = groupBy(nodes, node => labels.get(node)!);
+
+  const clusters: CoordinationCluster[] = [];
+  for (const members of communities.values()) {
+    if (members.length < minClusterSize) continue;
+
+    const memberSet = new Set(members);
+    const internal = strongEdges.filter(edge => memberSet.has(edge.source) && memberSet.has(edge.target));
+    const possiblePairs = (members.length * (members.length - 1)) / 2;
+    const density = internal.length / possiblePairs;
+    if (density < minDensity) continue;
+
+    const evidenceCounts: Record<EvidenceType, number> = { shared_url: 0, shared_domain: 0, co_comment: 0, duplicate_text: 0 };
+    const memberWeights: Record<string, number> = {};
+    for (const edge of internal) {
+      for (const item of edge.evidence) evidenceCounts[item.type]++;
+      memberWeights[edge.source] = (memberWeights[edge.source] ?? 0) + edge.weight;
+      memberWeights[edge.target] = (memberWeights[edge.target] ?? 0) + edge.weight;
+    }
+
+    clusters.push({
+      members: members.sort(),
+      density,
+      total_weight: internal.reduce((sum, edge) => sum + edge.weight, 0),
+      evidence_counts: evidenceCounts,
+      evidence: internal
+        .sort((a, b) => b.weight - a.weight)
+        .flatMap(edge => edge.evidence)
+        .slice(0, maxEvidencePerCluster),
+      member_weights: memberWeights,
+    });
+  }
+
+  return clusters.sort((a, b) => b.total_weight - a.total_weight);
+}
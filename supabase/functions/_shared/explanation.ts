@@ -0,0 +1,74 @@
+// Structured score explanations: for each feature, its value, where it sits in
+// the analysed population and how much it moved the final score. The signed
+// contributions add up to `score - baseline`, so they can be drawn as a waterfall.
+
+export interface FeatureContribution {
+  feature: string;
+  value: number;
+  // 0-100; null when there is no population to compare against
+  percentile: number | null;
+  contribution: number;
+}
+
+export interface ScoreExplanation {
+  method: string;
+  baseline: number;
+  score: number;
+  contributions: FeatureContribution[];
+}
+
+export class PopulationPercentiles {
+  private readonly sorted: number[][];
+
+  constructor(readonly featureNames: string[], vectors: number[][]) {
+    this.sorted = featureNames.map((_, j) => vectors.map(vector => vector[j]).sort((a, b) => a - b));
+  }
+
+  // Mid-rank percentile, so a value shared by the whole population sits at 50
+  percentile(featureIndex: number, value: number): number | null {
+    const column = this.sorted[featureIndex];
+    if (!column || column.length === 0) return null;
+
+    let below = 0;
+    let equal = 0;
+    for (const v of column) {
+      if (v < value) below++;
+      else if (v === value) equal++;
+    }
+    return ((below + equal / 2) / column.length) * 100;
+  }
+}
+
+// Split `total` across features in proportion to their log-odds terms. Exact
+// for the sign and ordering, approximate for magnitudes, since the sigmoid is
+// not additive.
+export function distributeLogOdds(logOdds: number[], total: number): number[] {
+  const sum = logOdds.reduce((a, b) => a + b, 0);
+  if (Math.abs(sum) < 1e-9) return logOdds.map(() => 0);
+  return logOdds.map(term => (term / sum) * total);
+}
+
+export function buildExplanation(
+  method: string,
+  featureNames: string[],
+  values: number[],
+  contributions: Record<string, number>,
+  baseline: number,
+  score: number,
+  population: PopulationPercentiles | null,
+  extra: FeatureContribution[] = [],
+): ScoreExplanation {
+  const features = featureNames.map((feature, j) => ({
+    feature,
+    value: values[j],
+    percentile: population ? population.percentile(j, values[j]) : null,
+    contribution: contributions[feature] ?? 0,
+  }));
+
+  return {
+    method,
+    baseline,
+    score,
+    contributions: [...features, ...extra].sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+  };
+}
@@ -0,0 +1,245 @@
+// Per-account feature extraction shared by bot-detection and model-training.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { TemporalFeatures, computeTemporalFeatures } from './temporal.ts'
+import {
+  DuplicationFeatures,
+  EMPTY_DUPLICATION_FEATURES,
+  TextDocument,
+  duplicationFeaturesByAuthor,
+  findDuplicateClusters
+} from './text-similarity.ts'
+import { EMPTY_USERNAME_FEATURES, UsernameFeatures, usernameFeaturesByAccount } from './username.ts'
+import { fetchAllRows } from './pagination.ts'
+
+export interface UserAnalysis {
+  username: string;
+  account_age_days: number;
+  comment_karma: number;
+  link_karma: number;
+  is_verified: boolean;
+  has_verified_email: boolean;
+  is_premium: boolean;
+  post_count: number;
+  comment_count: number;
+  avg_post_score: number;
+  posting_frequency: number;
+  temporal: TemporalFeatures;
+  duplication: DuplicationFeatures;
+  naming: UsernameFeatures;
+}
+
+export const FEATURE_NAMES = [
+  'account_age_days',
+  'comment_karma',
+  'link_karma',
+  'karma_ratio',
+  'posting_frequency',
+  'avg_post_score',
+  'post_comment_ratio',
+  'is_verified',
+  'has_verified_email',
+  'is_premium',
+  'interval_median_seconds',
+  'burstiness',
+  'hour_of_day_entropy',
+  'day_of_week_entropy',
+  'longest_awake_span_hours',
+  'exact_minute_periodicity',
+  'self_duplication_ratio',
+  'cross_account_duplicate_count',
+  'username_entropy',
+  'digit_suffix_length',
+  'templated_username',
+  'template_sibling_count',
+];
+
+// PostgREST puts `in` filters in the URL, so long username lists go in chunks
+const USERNAME_CHUNK_SIZE = 200;
+
+// Text duplication is measured over this much recent activity, so the cost of
+// a run follows posting volume rather than everything ever stored
+const REFERENCE_WINDOW_DAYS = 30;
+
+export function extractFeatures(user: UserAnalysis): number[] {
+  const karmaRatio = user.link_karma + user.comment_karma > 0
+    ? user.comment_karma / (user.link_karma + user.comment_karma)
+    : 0;
+
+  const postCommentRatio = user.comment_count > 0
+    ? user.post_count / user.comment_count
+    : user.post_count;
+
+  return [
+    user.account_age_days || 0,
+    user.comment_karma || 0,
+    user.link_karma || 0,
+    karmaRatio,
+    user.posting_frequency || 0,
+    user.avg_post_score || 0,
+    postCommentRatio,
+    user.is_verified ? 1 : 0,
+    user.has_verified_email ? 1 : 0,
+    user.is_premium ? 1 : 0,
+    user.temporal.interval_median_seconds,
+    user.temporal.burstiness,
+    user.temporal.hour_of_day_entropy,
+    user.temporal.day_of_week_entropy,
+    user.temporal.longest_awake_span_hours,
+    user.temporal.exact_minute_periodicity,
+    user.duplication.self_duplication_ratio,
+    user.duplication.cross_account_duplicate_count,
+    user.naming.character_entropy,
+    user.naming.digit_suffix_length,
+    user.naming.template !== 'none' ? 1 : 0,
+    user.naming.template_sibling_count,
+  ];
+}
+
+// Karma and age are heavy-tailed; compress them so a few huge accounts do not
+// dominate the models trained on these vectors
+export function scaledFeatures(user: UserAnalysis): number[] {
+  return extractFeatures(user).map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+}
+
+// Cross-account features are measured against one reference population,
+// never against the accounts being loaded, so training, evaluation and
+// detection see the same value for the same account. For duplication that is
+// every stored post and comment from the last REFERENCE_WINDOW_DAYS.
+async function loadReferenceDuplication(
+  supabaseClient: ReturnType<typeof createClient>,
+): Promise<Map<string, DuplicationFeatures>> {
+  const since = Math.floor(Date.now() / 1000) - REFERENCE_WINDOW_DAYS * 86400;
+
+  const posts = await fetchAllRows((from, to) => supabaseClient
+    .from('reddit_posts')
+    .select('reddit_id, author_username, title, content')
+    .gte('created_utc', since)
+    .order('id')
+    .range(from, to), 'reference posts');
+
+  const comments = await fetchAllRows((from, to) => supabaseClient
+    .from('reddit_comments')
+    .select('reddit_id, author_username, body')
+    .gte('created_utc', since)
+    .order('id')
+    .range(from, to), 'reference comments');
+
+  const documents: TextDocument[] = [
+    ...posts
+      .filter(post => post.author_username)
+      .map(post => ({ id: `t3_${post.reddit_id}`, author: post.author_username, text: `${post.title ?? ''}\n${post.content ?? ''}` })),
+    ...comments
+      .filter(comment => comment.author_username)
+      .map(comment => ({ id: `t1_${comment.reddit_id}`, author: comment.author_username, text: comment.body ?? '' }))
+  ];
+
+  return duplicationFeaturesByAuthor(documents, findDuplicateClusters(documents));
+}
+
+// Username template siblings are counted among every extracted account
+async function loadReferenceNaming(
+  supabaseClient: ReturnType<typeof createClient>,
+): Promise<Map<string, UsernameFeatures>> {
+  const accounts = await fetchAllRows((from, to) => supabaseClient
+    .from('reddit_accounts')
+    .select('username, account_created_utc')
+    .order('username')
+    .range(from, to), 'reference accounts');
+
+  return usernameFeaturesByAccount(accounts.map(account => ({
+    username: account.username,
+    account_created_utc: account.account_created_utc ?? null
+  })));
+}
+
+// Load accounts (all of them, or just `usernames`) with their post and comment
+// activity. Cross-account features (text duplication, username siblings) come
+// from the reference population, not from the accounts loaded here.
+export async function loadUserAnalyses(
+  supabaseClient: ReturnType<typeof createClient>,
+  usernames?: string[],
+  onProgress?: (done: number, total: number, username: string) => Promise<void> | void,
+): Promise<UserAnalysis[]> {
+  const users = [];
+
+  if (usernames) {
+    for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+      const { data, error } = await supabaseClient
+        .from('reddit_accounts')
+        .select('*')
+        .in('username', usernames.slice(i, i + USERNAME_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to fetch users: ${error.message}`);
+      }
+      users.push(...(data || []));
+    }
+  } else {
+    users.push(...await fetchAllRows((from, to) => supabaseClient
+      .from('reddit_accounts')
+      .select('*')
+      .order('username')
+      .range(from, to), 'users'));
+  }
+
+  const userAnalyses: UserAnalysis[] = [];
+
+  for (const user of users) {
+    await onProgress?.(userAnalyses.length, users.length, user.username);
+
+    // Get post count, average score and timestamps
+    const { data: posts } = await supabaseClient
+      .from('reddit_posts')
+      .select('score, created_utc')
+      .eq('author_username', user.username);
+
+    // Get comment count and timestamps
+    const { data: comments } = await supabaseClient
+      .from('reddit_comments')
+      .select('created_utc')
+      .eq('author_username', user.username);
+
+    const postCount = posts?.length || 0;
+    const commentCount = comments?.length || 0;
+    const avgPostScore = postCount > 0
+      ? posts!.reduce((sum, post) => sum + (post.score || 0), 0) / postCount
+      : 0;
+
+    const postingFrequency = user.account_age_days > 0
+      ? (postCount + commentCount) / user.account_age_days
+      : 0;
+
+    userAnalyses.push({
+      username: user.username,
+      account_age_days: user.account_age_days || 0,
+      comment_karma: user.comment_karma || 0,
+      link_karma: user.link_karma || 0,
+      is_verified: user.is_verified || false,
+      has_verified_email: user.has_verified_email || false,
+      is_premium: user.is_premium || false,
+      post_count: postCount,
+      comment_count: commentCount,
+      avg_post_score: avgPostScore,
+      posting_frequency: postingFrequency,
+      temporal: computeTemporalFeatures([
+        ...(posts || []).map(post => post.created_utc),
+        ...(comments || []).map(comment => comment.created_utc)
+      ]),
+      duplication: EMPTY_DUPLICATION_FEATURES,
+      naming: EMPTY_USERNAME_FEATURES
+    });
+  }
+
+  const duplication = await loadReferenceDuplication(supabaseClient);
+  for (const userAnalysis of userAnalyses) {
+    userAnalysis.duplication = duplication.get(userAnalysis.username) ?? EMPTY_DUPLICATION_FEATURES;
+  }
+
+  const naming = await loadReferenceNaming(supabaseClient);
+  for (const userAnalysis of userAnalyses) {
+    userAnalysis.naming = naming.get(userAnalysis.username) ?? EMPTY_USERNAME_FEATURES;
+  }
+
+  return userAnalyses;
+}
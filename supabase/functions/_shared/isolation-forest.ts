@@ -0,0 +1,197 @@
+// Isolation Forest (Liu, Ting & Zhou, 2008) for account anomaly scoring.
+//
+// Plain TypeScript with no Deno or browser APIs, so the same module runs in
+// the edge functions and under Node. Randomness comes from a seeded PRNG so a
+// given seed and training set always produce the same forest and scores.
+
+export interface IsolationForestOptions {
+  nTrees?: number;
+  sampleSize?: number;
+  contamination?: number;
+  seed?: number;
+}
+
+type IsolationNode =
+  | { type: 'leaf'; size: number }
+  | { type: 'split'; feature: number; threshold: number; left: IsolationNode; right: IsolationNode };
+
+export interface SerializedIsolationForest {
+  version: 1;
+  options: Required<IsolationForestOptions>;
+  featureNames: string[];
+  trainingSize: number;
+  threshold: number;
+  trees: IsolationNode[];
+}
+
+const EULER_MASCHERONI = 0.5772156649;
+
+// mulberry32: tiny, fast and good enough for choosing splits
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Average path length of an unsuccessful BST search over n points
+export function averagePathLength(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + EULER_MASCHERONI) - (2 * (n - 1)) / n;
+}
+
+function buildTree(rows: number[][], depth: number, maxDepth: number, rng: () => number): IsolationNode {
+  if (depth >= maxDepth || rows.length <= 1) {
+    return { type: 'leaf', size: rows.length };
+  }
+
+  // Only features that still vary within this node can split it
+  const featureCount = rows[0].length;
+  const candidates: { feature: number; min: number; max: number }[] = [];
+  for (let feature = 0; feature < featureCount; feature++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const row of rows) {
+      if (row[feature] < min) min = row[feature];
+      if (row[feature] > max) max = row[feature];
+    }
+    if (max > min) candidates.push({ feature, min, max });
+  }
+
+  if (candidates.length === 0) {
+    return { type: 'leaf', size: rows.length };
+  }
+
+  const { feature, min, max } = candidates[Math.floor(rng() * candidates.length)];
+  const threshold = min + rng() * (max - min);
+
+  const left: number[][] = [];
+  const right: number[][] = [];
+  for (const row of rows) {
+    (row[feature] < threshold ? left : right).push(row);
+  }
+
+  return {
+    type: 'split',
+    feature,
+    threshold,
+    left: buildTree(left, depth + 1, maxDepth, rng),
+    right: buildTree(right, depth + 1, maxDepth, rng),
+  };
+}
+
+function pathLength(node: IsolationNode, sample: number[], depth: number): number {
+  if (node.type === 'leaf') {
+    return depth + averagePathLength(node.size);
+  }
+  return pathLength(sample[node.feature] < node.threshold ? node.left : node.right, sample, depth + 1);
+}
+
+export class IsolationForest {
+  readonly options: Required<IsolationForestOptions>;
+  readonly featureNames: string[];
+
+  private trees: IsolationNode[] = [];
+  private trainingSize = 0;
+  private effectiveSampleSize = 0;
+  // Score at or above which a sample is counted as an outlier
+  private threshold = 1;
+
+  constructor(featureNames: string[], options: IsolationForestOptions = {}) {
+    this.featureNames = featureNames;
+    this.options = {
+      nTrees: 100,
+      sampleSize: 256,
+      contamination: 0.1,
+      seed: 42,
+      ...options,
+    };
+  }
+
+  get isFitted(): boolean {
+    return this.trees.length > 0;
+  }
+
+  get outlierThreshold(): number {
+    return this.threshold;
+  }
+
+  fit(data: number[][]): this {
+    if (data.length === 0) {
+      throw new Error('Cannot fit an isolation forest on an empty dataset');
+    }
+
+    const rng = createRng(this.options.seed);
+    this.trainingSize = data.length;
+    this.effectiveSampleSize = Math.min(this.options.sampleSize, data.length);
+    const maxDepth = Math.ceil(Math.log2(Math.max(this.effectiveSampleSize, 2)));
+
+    this.trees = [];
+    for (let i = 0; i < this.options.nTrees; i++) {
+      this.trees.push(buildTree(this.subsample(data, rng), 0, maxDepth, rng));
+    }
+
+    // The contamination share of the training set with the highest scores sets the cut-off
+    const scores = data.map(row => this.score(row)).sort((a, b) => b - a);
+    const outlierCount = Math.floor(this.options.contamination * scores.length);
+    this.threshold = outlierCount > 0 ? scores[outlierCount - 1] : 1;
+
+    return this;
+  }
+
+  // Anomaly score in [0, 1]: near 1 is easily isolated, below 0.5 is ordinary
+  score(sample: number[]): number {
+    if (!this.isFitted) {
+      throw new Error('Isolation forest has not been fitted');
+    }
+
+    const meanPath = this.trees.reduce((sum, tree) => sum + pathLength(tree, sample, 0), 0) / this.trees.length;
+    const normaliser = averagePathLength(this.effectiveSampleSize);
+    return normaliser > 0 ? Math.pow(2, -meanPath / normaliser) : 0.5;
+  }
+
+  isOutlier(sample: number[]): boolean {
+    return this.score(sample) >= this.threshold;
+  }
+
+  toJSON(): SerializedIsolationForest {
+    return {
+      version: 1,
+      options: this.options,
+      featureNames: this.featureNames,
+      trainingSize: this.trainingSize,
+      threshold: this.threshold,
+      trees: this.trees,
+    };
+  }
+
+  static fromJSON(serialized: SerializedIsolationForest): IsolationForest {
+    if (serialized.version !== 1) {
+      throw new Error(`Unsupported isolation forest version: ${serialized.version}`);
+    }
+
+    const forest = new IsolationForest(serialized.featureNames, serialized.options);
+    forest.trees = serialized.trees;
+    forest.trainingSize = serialized.trainingSize;
+    forest.effectiveSampleSize = Math.min(serialized.options.sampleSize, serialized.trainingSize);
+    forest.threshold = serialized.threshold;
+    return forest;
+  }
+
+  // Sample without replacement (partial Fisher-Yates)
+  private subsample(data: number[][], rng: () => number): number[][] {
+    if (data.length <= this.effectiveSampleSize) return data.slice();
+
+    const indices = data.map((_, i) => i);
+    for (let i = 0; i < this.effectiveSampleSize; i++) {
+      const j = i + Math.floor(rng() * (indices.length - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices.slice(0, this.effectiveSampleSize).map(i => data[i]);
+  }
+}
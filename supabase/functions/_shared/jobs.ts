@@ -0,0 +1,172 @@
+// Background job queue for the analysis pipeline.
+//
+// run-full-analysis enqueues the first stage and returns; analysis-worker
+// claims jobs under a lease, keeps the lease alive with heartbeats while the
+// stage runs and enqueues the next stage when it succeeds. A worker that dies
+// simply lets its lease expire and the job is claimed again; the stage it
+// started stops at its next write once it sees the job has moved on.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type PipelineStage = 'extract' | 'detect' | 'coordinate';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  session_id: string;
+  stage: PipelineStage;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  payload: Record<string, unknown>;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+}
+
+export const PIPELINE_STAGES: PipelineStage[] = ['extract', 'detect', 'coordinate'];
+
+// Session status while each stage runs; a session is 'queued' between stages
+export const STAGE_SESSION_STATUS: Record<PipelineStage, string> = {
+  extract: 'extracting_data',
+  detect: 'analyzing',
+  coordinate: 'coordinating',
+};
+
+// A session in any other status still has pipeline work ahead of it
+export const TERMINAL_SESSION_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// The edge function that does each stage's work
+export const STAGE_FUNCTIONS: Record<PipelineStage, string> = {
+  extract: 'reddit-extract',
+  detect: 'bot-detection',
+  coordinate: 'coordination-analysis',
+};
+
+// A lease must outlive a few missed heartbeats, not a whole stage
+export const LEASE_SECONDS = 120;
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export function nextStage(stage: PipelineStage): PipelineStage | null {
+  const index = PIPELINE_STAGES.indexOf(stage);
+  return index >= 0 && index < PIPELINE_STAGES.length - 1 ? PIPELINE_STAGES[index + 1] : null;
+}
+
+// Exponential backoff between attempts of a failed stage: 30s, 60s, 120s...
+export function retryDelaySeconds(attempts: number): number {
+  return 30 * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+export async function enqueueJob(
+  supabaseClient: ReturnType<typeof createClient>,
+  sessionId: string,
+  stage: PipelineStage,
+  payload: Record<string, unknown> = {},
+): Promise<AnalysisJob> {
+  const { data, error } = await supabaseClient
+    .from('analysis_jobs')
+    .insert({
+      session_id: sessionId,
+      stage,
+      status: 'queued',
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      payload
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue ${stage} job: ${error.message}`);
+  }
+
+  return data as AnalysisJob;
+}
+
+// Start a worker without waiting for it; the edge runtime keeps the request
+// alive until the promise settles
+export function kickWorker() {
+  const request = fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/analysis-worker`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
+    },
+    body: JSON.stringify({})
+  }).catch(error => console.error('Failed to start analysis worker:', error));
+
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  runtime?.waitUntil(request);
+}
+
+// Stages call this between batches so a cancelled session stops promptly
+export async function isSessionCancelled(
+  supabaseClient: ReturnType<typeof createClient>,
+  sessionId: string,
+): Promise<boolean> {
+  const { data } = await supabaseClient
+    .from('analysis_sessions')
+    .select('status')
+    .eq('id', sessionId)
+    .single();
+
+  return data?.status === 'cancelled';
+}
+
+// Accounts the session's extract stage fetched; later stages analyze only these
+export async function loadSessionUsernames(
+  supabaseClient: ReturnType<typeof createClient>,
+  sessionId: string,
+): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('analysis_sessions')
+    .select('extraction_checkpoint')
+    .eq('id', sessionId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to get session: ${error.message}`);
+  }
+
+  const checkpoint = data?.extraction_checkpoint as { fetched_users?: string[] } | null;
+  return checkpoint?.fetched_users ?? [];
+}
+
+// The job run a stage is working for. The worker passes it along with the
+// stage request; the stage's own invocation outlives the worker's heartbeats
+// if the worker dies, so the stage checks it still owns the job before writing.
+export interface JobLease {
+  job_id: string;
+  lease_owner: string;
+}
+
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was reclaimed by another worker`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+// Throws LeaseLostError once the job has been reclaimed; calls made outside the
+// worker carry no lease and always pass
+export async function assertLeaseHeld(
+  supabaseClient: ReturnType<typeof createClient>,
+  lease: JobLease | undefined,
+) {
+  if (!lease) return;
+
+  const { data, error } = await supabaseClient
+    .from('analysis_jobs')
+    .select('status, lease_owner')
+    .eq('id', lease.job_id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to check job lease: ${error.message}`);
+  }
+
+  if (data?.status !== 'running' || data?.lease_owner !== lease.lease_owner) {
+    throw new LeaseLostError(lease.job_id);
+  }
+}
@@ -0,0 +1,156 @@
+// Analyst labels and the deterministic train/holdout split built on them.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fetchAllRows } from './pagination.ts'
+
+export type LabelValue = 'bot' | 'human' | 'unsure';
+
+export interface AccountLabel {
+  username: string;
+  label: LabelValue;
+  labelled_at: string;
+}
+
+// Share of labelled accounts kept out of training for evaluation
+export const DEFAULT_HOLDOUT_FRACTION = 0.2;
+
+// An account can be relabelled; only its most recent verdict counts
+export function latestLabels(labels: AccountLabel[]): Map<string, LabelValue> {
+  const latest = new Map<string, LabelValue>();
+  const sorted = [...labels].sort((a, b) => b.labelled_at.localeCompare(a.labelled_at));
+
+  for (const label of sorted) {
+    if (!latest.has(label.username)) latest.set(label.username, label.label);
+  }
+
+  return latest;
+}
+
+// FNV-1a hash of the username mapped to [0, 1). Hashing rather than sampling
+// keeps every account on the same side of the split across training runs.
+function hashUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+export function isHoldout(username: string, fraction: number): boolean {
+  return hashUnit(username.toLowerCase()) < fraction;
+}
+
+// Latest bot/human verdict per account; 'unsure' carries no signal and is dropped
+export async function loadDecisiveLabels(
+  supabaseClient: ReturnType<typeof createClient>,
+): Promise<Map<string, 'bot' | 'human'>> {
+  const labels = await fetchAllRows((from, to) => supabaseClient
+    .from('account_labels')
+    .select('id, username, label, labelled_at')
+    .order('id')
+    .range(from, to), 'labels');
+
+  const decisive = new Map<string, 'bot' | 'human'>();
+  for (const [username, label] of latestLabels(labels as AccountLabel[])) {
+    if (label !== 'unsure') decisive.set(username, label);
+  }
+  return decisive;
+}
+
+export interface ReviewerLabel extends AccountLabel {
+  labeller: string | null;
+}
+
+export interface ReviewerPairAgreement {
+  reviewers: [string, string];
+  shared_accounts: number;
+  agreement: number;
+  // Cohen's kappa; null when chance agreement is already perfect
+  kappa: number | null;
+}
+
+export interface AgreementReport {
+  reviewers: string[];
+  accounts_with_multiple_reviews: number;
+  observed_agreement: number | null;
+  pairs: ReviewerPairAgreement[];
+  disputed: { username: string; labels: Record<string, LabelValue> }[];
+}
+
+const LABEL_VALUES: LabelValue[] = ['bot', 'human', 'unsure'];
+
+// Each reviewer's most recent label per account; anonymous labels are left out
+export function latestLabelsByReviewer(labels: ReviewerLabel[]): Map<string, Map<string, LabelValue>> {
+  const byAccount = new Map<string, Map<string, LabelValue>>();
+  const sorted = [...labels].sort((a, b) => b.labelled_at.localeCompare(a.labelled_at));
+
+  for (const label of sorted) {
+    if (!label.labeller) continue;
+    const reviewers = byAccount.get(label.username) ?? new Map<string, LabelValue>();
+    if (!reviewers.has(label.labeller)) reviewers.set(label.labeller, label.label);
+    byAccount.set(label.username, reviewers);
+  }
+
+  return byAccount;
+}
+
+export function cohensKappa(pairs: [LabelValue, LabelValue][]): number | null {
+  if (pairs.length === 0) return null;
+
+  const observed = pairs.filter(([a, b]) => a === b).length / pairs.length;
+  let expected = 0;
+  for (const value of LABEL_VALUES) {
+    const first = pairs.filter(([a]) => a === value).length / pairs.length;
+    const second = pairs.filter(([, b]) => b === value).length / pairs.length;
+    expected += first * second;
+  }
+
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+}
+
+export function reviewerAgreement(labels: ReviewerLabel[]): AgreementReport {
+  const byAccount = latestLabelsByReviewer(labels);
+  const reviewers = [...new Set(labels.map(label => label.labeller).filter((name): name is string => !!name))].sort();
+  const pairLabels = new Map<string, [LabelValue, LabelValue][]>();
+  const disputed: AgreementReport['disputed'] = [];
+  let multiplyReviewed = 0;
+  let agreeingPairs = 0;
+  let totalPairs = 0;
+
+  for (const [username, accountLabels] of byAccount) {
+    if (accountLabels.size < 2) continue;
+    multiplyReviewed++;
+
+    const names = [...accountLabels.keys()].sort();
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        const a = accountLabels.get(names[i])!;
+        const b = accountLabels.get(names[j])!;
+        const key = `${names[i]}\u0000${names[j]}`;
+        pairLabels.set(key, [...(pairLabels.get(key) ?? []), [a, b]]);
+        totalPairs++;
+        if (a === b) agreeingPairs++;
+      }
+    }
+
+    if (new Set(accountLabels.values()).size > 1) {
+      disputed.push({ username, labels: Object.fromEntries(accountLabels) });
+    }
+  }
+
+  const pairs = [...pairLabels].map(([key, shared]) => ({
+    reviewers: key.split('\u0000') as [string, string],
+    shared_accounts: shared.length,
+    agreement: shared.filter(([a, b]) => a === b).length / shared.length,
+    kappa: cohensKappa(shared),
+  })).sort((x, y) => y.shared_accounts - x.shared_accounts);
+
+  return {
+    reviewers,
+    accounts_with_multiple_reviews: multiplyReviewed,
+    observed_agreement: totalPairs > 0 ? agreeingPairs / totalPairs : null,
+    pairs,
+    disputed: disputed.sort((a, b) => a.username.localeCompare(b.username)),
+  };
+}
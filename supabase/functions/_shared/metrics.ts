@@ -0,0 +1,87 @@
+// Binary classification metrics for scored, labelled accounts (1 = bot).
+
+export interface ThresholdMetrics {
+  threshold: number;
+  true_positives: number;
+  false_positives: number;
+  true_negatives: number;
+  false_negatives: number;
+  precision: number;
+  recall: number;
+  f1_score: number;
+  accuracy: number;
+}
+
+export function metricsAtThreshold(scores: number[], labels: number[], threshold: number): ThresholdMetrics {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+
+  for (let i = 0; i < scores.length; i++) {
+    const predicted = scores[i] > threshold ? 1 : 0;
+    if (predicted === 1 && labels[i] === 1) tp++;
+    else if (predicted === 1) fp++;
+    else if (labels[i] === 1) fn++;
+    else tn++;
+  }
+
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+
+  return {
+    threshold,
+    true_positives: tp,
+    false_positives: fp,
+    true_negatives: tn,
+    false_negatives: fn,
+    precision,
+    recall,
+    f1_score: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    accuracy: scores.length > 0 ? (tp + tn) / scores.length : 0,
+  };
+}
+
+// Probability that a random bot outscores a random human (ties count half)
+export function rocAuc(scores: number[], labels: number[]): number | null {
+  const ranked = scores.map((score, i) => ({ score, label: labels[i] })).sort((a, b) => a.score - b.score);
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  // Sum of average ranks of the positives (Mann-Whitney U)
+  let rankSum = 0;
+  for (let i = 0; i < ranked.length;) {
+    let j = i;
+    while (j < ranked.length && ranked[j].score === ranked[i].score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (ranked[k].label === 1) rankSum += averageRank;
+    }
+    i = j;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+// Area under the precision-recall curve, computed as average precision
+export function prAuc(scores: number[], labels: number[]): number | null {
+  const positives = labels.filter(label => label === 1).length;
+  if (positives === 0) return null;
+
+  const ranked = scores.map((score, i) => ({ score, label: labels[i] })).sort((a, b) => b.score - a.score);
+
+  let truePositives = 0;
+  let averagePrecision = 0;
+  for (let i = 0; i < ranked.length;) {
+    // Tied scores are admitted together, as a single threshold would
+    let j = i;
+    let tiedPositives = 0;
+    while (j < ranked.length && ranked[j].score === ranked[i].score) {
+      if (ranked[j].label === 1) tiedPositives++;
+      j++;
+    }
+    truePositives += tiedPositives;
+    averagePrecision += (tiedPositives / positives) * (truePositives / j);
+    i = j;
+  }
+
+  return averagePrecision;
+}
@@ -0,0 +1,31 @@
+// Paged reads for queries that must see every row.
+//
+// PostgREST returns at most `max_rows` rows per request (1000 by default) and
+// silently drops the rest, so whole-table reads page through with range().
+// Queries passed in should have a stable order, or rows can be skipped or
+// repeated between pages.
+
+export const READ_PAGE_SIZE = 1000;
+
+interface PageResponse<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResponse<T>>,
+  description: string,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += READ_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + READ_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch ${description}: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < READ_PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,75 @@
+// Live pipeline progress, one row per (session, stage) in analysis_progress.
+// The dashboard subscribes to the table through Supabase Realtime.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Extraction reports its three passes separately; the later stages report once each
+export type ProgressStage = 'listing' | 'comments' | 'users' | 'detect' | 'coordinate';
+
+export type ProgressStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProgressUpdate {
+  items_done?: number;
+  items_total?: number | null;
+  current_item?: string | null;
+  error_count?: number;
+  rate_limit_waits?: number;
+  message?: string | null;
+}
+
+// Writes are throttled so a fast loop does not flood Realtime subscribers
+const MIN_WRITE_INTERVAL_MS = 1000;
+
+export class ProgressReporter {
+  private state: Required<ProgressUpdate> = {
+    items_done: 0,
+    items_total: null,
+    current_item: null,
+    error_count: 0,
+    rate_limit_waits: 0,
+    message: null,
+  };
+  private lastWrite = 0;
+
+  constructor(
+    private readonly supabaseClient: ReturnType<typeof createClient>,
+    private readonly sessionId: string | undefined,
+    readonly stage: ProgressStage,
+  ) {}
+
+  async start(update: ProgressUpdate = {}) {
+    this.state = { ...this.state, ...update };
+    await this.write('running', { started_at: new Date().toISOString(), finished_at: null });
+  }
+
+  async update(update: ProgressUpdate) {
+    this.state = { ...this.state, ...update };
+    if (Date.now() - this.lastWrite < MIN_WRITE_INTERVAL_MS) return;
+    await this.write('running');
+  }
+
+  async finish(status: Exclude<ProgressStatus, 'running'>, update: ProgressUpdate = {}) {
+    this.state = { ...this.state, current_item: null, ...update };
+    await this.write(status, { finished_at: new Date().toISOString() });
+  }
+
+  private async write(status: ProgressStatus, extra: Record<string, unknown> = {}) {
+    if (!this.sessionId) return;
+    this.lastWrite = Date.now();
+
+    // Progress is best effort; a failed write must not fail the stage
+    const { error } = await this.supabaseClient
+      .from('analysis_progress')
+      .upsert({
+        session_id: this.sessionId,
+        stage: this.stage,
+        status,
+        ...this.state,
+        ...extra
+      }, { onConflict: 'session_id,stage' });
+
+    if (error) {
+      console.error(`Failed to publish ${this.stage} progress:`, error);
+    }
+  }
+}
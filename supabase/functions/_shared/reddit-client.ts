@@ -0,0 +1,268 @@
+// Shared Reddit API client for the edge functions.
+//
+// Handles script-app OAuth (with token reuse until `expires_in`), adaptive
+// throttling driven by Reddit's X-Ratelimit-* headers, and retries with
+// exponential backoff and jitter for transient failures.
+//
+// The Reddit hosts can be overridden with REDDIT_AUTH_BASE_URL and
+// REDDIT_API_BASE_URL, e.g. to point at the fake server in supabase/fake-reddit.
+
+export const USER_AGENT = 'Bot Detection Project created by /u/Return_Foo_Bar version: 0.1';
+
+export const DEFAULT_AUTH_BASE_URL = 'https://www.reddit.com';
+export const DEFAULT_API_BASE_URL = 'https://oauth.reddit.com';
+
+interface RedditTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+export interface RedditClientConfig {
+  clientId: string;
+  clientSecret: string;
+  username: string;
+  password: string;
+  authBaseUrl?: string;
+  apiBaseUrl?: string;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  minRequestIntervalMs?: number;
+}
+
+export interface RedditClientStats {
+  requests: number;
+  retries: number;
+  rateLimitWaits: number;
+  tokenRefreshes: number;
+}
+
+export type RedditQuery = Record<string, string | number | boolean | undefined | null>;
+
+export class RedditApiError extends Error {
+  status: number;
+  retryable: boolean;
+
+  constructor(message: string, status: number, retryable: boolean) {
+    super(message);
+    this.name = 'RedditApiError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// Refresh the token this long before Reddit says it expires
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Start spreading requests out once fewer than this many remain in the window
+const RATE_LIMIT_LOW_WATERMARK = 10;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 522, 524];
+
+// Subreddit listings and the `t` windows Reddit accepts for them
+export const LISTING_SORTS = ['hot', 'new', 'top', 'rising', 'controversial'];
+export const LISTING_TIME_WINDOWS = ['hour', 'day', 'week', 'month', 'year', 'all'];
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Tokens are cached per credential pair for the lifetime of the isolate, so
+// warm invocations reuse them instead of authenticating again.
+const tokenCache = new Map<string, CachedToken>();
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class RedditClient {
+  readonly stats: RedditClientStats = { requests: 0, retries: 0, rateLimitWaits: 0, tokenRefreshes: 0 };
+
+  private config: Required<RedditClientConfig>;
+  private nextRequestAt = 0;
+
+  constructor(config: RedditClientConfig) {
+    this.config = {
+      authBaseUrl: DEFAULT_AUTH_BASE_URL,
+      apiBaseUrl: DEFAULT_API_BASE_URL,
+      maxRetries: 5,
+      baseBackoffMs: 500,
+      maxBackoffMs: 30000,
+      minRequestIntervalMs: 100,
+      ...config
+    };
+  }
+
+  static fromEnv(): RedditClient {
+    const clientId = Deno.env.get('REDDIT_CLIENT_ID');
+    const clientSecret = Deno.env.get('REDDIT_CLIENT_SECRET');
+    const username = Deno.env.get('REDDIT_USERNAME');
+    const password = Deno.env.get('REDDIT_PASSWORD');
+
+    if (!clientId || !clientSecret || !username || !password) {
+      throw new Error('Reddit API credentials not configured. Please ensure REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET, REDDIT_USERNAME, and REDDIT_PASSWORD are set.');
+    }
+
+    return new RedditClient({
+      clientId,
+      clientSecret,
+      username,
+      password,
+      authBaseUrl: Deno.env.get('REDDIT_AUTH_BASE_URL') || DEFAULT_AUTH_BASE_URL,
+      apiBaseUrl: Deno.env.get('REDDIT_API_BASE_URL') || DEFAULT_API_BASE_URL
+    });
+  }
+
+  // GET an OAuth endpoint, e.g. `/r/AskReddit/new`, and parse the JSON body
+  async get<T>(path: string, query: RedditQuery = {}): Promise<T> {
+    const url = new URL(`${this.config.apiBaseUrl.replace(/\/$/, '')}${path}`);
+    url.searchParams.set('raw_json', '1');
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) url.searchParams.set(key, String(value));
+    }
+
+    let lastError: RedditApiError | null = null;
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        this.stats.retries++;
+        await sleep(this.backoffDelay(attempt, lastError));
+      }
+
+      await this.throttle();
+
+      let response: Response;
+      try {
+        const accessToken = await this.getAccessToken();
+        this.stats.requests++;
+        response = await fetch(url, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'User-Agent': USER_AGENT,
+          }
+        });
+      } catch (error) {
+        if (error instanceof RedditApiError && !error.retryable) throw error;
+        // Network failures are always worth another attempt
+        lastError = error instanceof RedditApiError
+          ? error
+          : new RedditApiError(`Network error calling ${path}: ${(error as Error).message}`, 0, true);
+        continue;
+      }
+
+      this.updateRateLimit(response.headers);
+
+      if (response.ok) {
+        return await response.json() as T;
+      }
+
+      const body = await response.text();
+
+      // An expired or revoked token: drop it and authenticate again
+      if (response.status === 401) {
+        tokenCache.delete(this.cacheKey());
+        lastError = new RedditApiError(`Unauthorized calling ${path}`, 401, true);
+        continue;
+      }
+
+      lastError = new RedditApiError(
+        `Reddit API ${path} failed: ${response.status} ${response.statusText} - ${body.substring(0, 200)}`,
+        response.status,
+        isRetryableStatus(response.status),
+      );
+
+      if (!lastError.retryable) throw lastError;
+
+      if (response.status === 429) {
+        this.stats.rateLimitWaits++;
+      }
+
+      console.log(`Retryable Reddit error on ${path} (attempt ${attempt + 1}): ${response.status}`);
+    }
+
+    throw lastError ?? new RedditApiError(`Reddit API ${path} failed`, 0, true);
+  }
+
+  private cacheKey() {
+    return `${this.config.authBaseUrl}:${this.config.clientId}:${this.config.username}`;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const cached = tokenCache.get(this.cacheKey());
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const { clientId, clientSecret, username, password } = this.config;
+
+    const tokenResponse = await fetch(`${this.config.authBaseUrl.replace(/\/$/, '')}/api/v1/access_token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        'User-Agent': USER_AGENT,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `grant_type=password&username=${encodeURIComponent(username)}&password=${encodeURIComponent(password)}`
+    });
+
+    if (!tokenResponse.ok) {
+      const errorText = await tokenResponse.text();
+      console.error(`Reddit token request failed. Status: ${tokenResponse.status}, Response: ${errorText}`);
+      throw new RedditApiError(
+        `Failed to get Reddit token: ${tokenResponse.status} ${tokenResponse.statusText} - ${errorText}`,
+        tokenResponse.status,
+        isRetryableStatus(tokenResponse.status),
+      );
+    }
+
+    const tokenData: RedditTokenResponse = await tokenResponse.json();
+    tokenCache.set(this.cacheKey(), {
+      accessToken: tokenData.access_token,
+      expiresAt: Date.now() + tokenData.expires_in * 1000
+    });
+    this.stats.tokenRefreshes++;
+    console.log('Successfully obtained Reddit OAuth token');
+
+    return tokenData.access_token;
+  }
+
+  private async throttle() {
+    const waitMs = this.nextRequestAt - Date.now();
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  // Reddit reports the remaining requests and seconds until the window resets.
+  // Spread what is left evenly over the window, and stop entirely once exhausted.
+  private updateRateLimit(headers: Headers) {
+    const remaining = parseFloat(headers.get('X-Ratelimit-Remaining') ?? '');
+    const resetSeconds = parseFloat(headers.get('X-Ratelimit-Reset') ?? '');
+    let intervalMs = this.config.minRequestIntervalMs;
+
+    if (!isNaN(remaining) && !isNaN(resetSeconds)) {
+      if (remaining < 1) {
+        intervalMs = resetSeconds * 1000;
+        this.stats.rateLimitWaits++;
+        console.log(`Reddit rate limit exhausted, waiting ${resetSeconds}s for reset`);
+      } else if (remaining < RATE_LIMIT_LOW_WATERMARK) {
+        intervalMs = Math.max(intervalMs, (resetSeconds * 1000) / remaining);
+      }
+    }
+
+    this.nextRequestAt = Date.now() + intervalMs;
+  }
+
+  private backoffDelay(attempt: number, error: RedditApiError | null) {
+    const exponential = Math.min(this.config.maxBackoffMs, this.config.baseBackoffMs * 2 ** (attempt - 1));
+    // Full jitter keeps parallel workers from retrying in lockstep
+    const delay = Math.random() * exponential;
+    return error?.status === 429 ? Math.max(delay, this.config.baseBackoffMs) : delay;
+  }
+}
@@ -0,0 +1,342 @@
+// Scoring shared by bot-detection and model-evaluation, so an evaluation run
+// scores accounts exactly the way a detection run would.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { IsolationForest, SerializedIsolationForest } from './isolation-forest.ts'
+import { LogisticRegression, SerializedLogisticRegression } from './logistic-regression.ts'
+import { FEATURE_NAMES, UserAnalysis, extractFeatures, scaledFeatures } from './features.ts'
+import {
+  FeatureContribution,
+  PopulationPercentiles,
+  ScoreExplanation,
+  buildExplanation,
+  distributeLogOdds
+} from './explanation.ts'
+import { MIN_TEMPORAL_EVENTS } from './temporal.ts'
+
+export interface BotDetectionResult {
+  username: string;
+  bot_probability: number;
+  confidence_score: number;
+  detection_method: string;
+  features_analyzed: Record<string, unknown>;
+  score_explanation: ScoreExplanation;
+  risk_factors: string[];
+}
+
+// Final score = RULE_WEIGHT * rule score + ANOMALY_WEIGHT * anomaly score.
+// The rules stay dominant because the anomaly detector only knows how unusual
+// an account is within this population, not whether unusual means automated.
+export const RULE_WEIGHT = 0.7;
+export const ANOMALY_WEIGHT = 0.3;
+
+// Below this many accounts a freshly fitted forest is too noisy to use
+export const MIN_ANOMALY_POPULATION = 10;
+
+// hybrid: rules blended with the isolation forest (rules alone for tiny populations)
+// rule_based: hand-tuned rules only
+// supervised: a logistic regression trained on analyst labels by model-training
+export const DETECTION_METHODS = ['hybrid', 'rule_based', 'supervised'];
+
+// Bump whenever the hand-tuned rules or their weights change, so results
+// scored by different rule sets are kept apart
+export const RULES_VERSION = 4;
+
+export interface TrainedClassifier {
+  id: string;
+  version: number;
+  model: LogisticRegression;
+}
+
+export function analyzeBotProbability(
+  user: UserAnalysis,
+  detector: IsolationForest | null,
+  classifier: TrainedClassifier | null,
+  population: PopulationPercentiles | null = null,
+): BotDetectionResult {
+  const riskFactors: string[] = [];
+  
+  // Rule-based risk assessment
+  if (user.account_age_days < 30) {
+    riskFactors.push('Very new account');
+  }
+  
+  if (user.comment_karma < 10 && user.account_age_days > 90) {
+    riskFactors.push('Low karma for account age');
+  }
+  
+  if (user.posting_frequency > 10) {
+    riskFactors.push('High posting frequency');
+  }
+  
+  if (!user.has_verified_email && user.account_age_days > 7) {
+    riskFactors.push('Unverified email');
+  }
+  
+  const karmaRatio = user.link_karma + user.comment_karma > 0 
+    ? user.comment_karma / (user.link_karma + user.comment_karma) 
+    : 0;
+  
+  if (karmaRatio < 0.1 && user.link_karma > 100) {
+    riskFactors.push('Unusually high link karma ratio');
+  }
+
+  // Temporal patterns need enough events to mean anything
+  const temporal = user.temporal;
+  const hasTemporalSignal = temporal.event_count >= MIN_TEMPORAL_EVENTS;
+
+  if (hasTemporalSignal && temporal.event_count >= 24 && temporal.hour_of_day_entropy > 0.9) {
+    riskFactors.push('Active around the clock');
+  }
+
+  if (hasTemporalSignal && temporal.longest_awake_span_hours > 20) {
+    riskFactors.push('No rest gaps for 20+ hours');
+  }
+
+  if (hasTemporalSignal && temporal.burstiness < -0.5) {
+    riskFactors.push('Fixed posting cadence');
+  }
+
+  if (hasTemporalSignal && temporal.exact_minute_periodicity > 0.5) {
+    riskFactors.push('Posts on exact-minute intervals');
+  }
+
+  const duplication = user.duplication;
+
+  if (duplication.cross_account_duplicate_count > 0) {
+    const others = duplication.cross_account_duplicate_count;
+    riskFactors.push(`Reposts text shared by ${others} other account${others === 1 ? '' : 's'}`);
+  }
+
+  if (duplication.document_count >= 3 && duplication.self_duplication_ratio > 0.3) {
+    riskFactors.push(`Repeats own text (${Math.round(duplication.self_duplication_ratio * 100)}% of posts and comments)`);
+  }
+
+  const naming = user.naming;
+
+  if (naming.template === 'reddit_generated') {
+    riskFactors.push('Auto-generated username');
+  } else if (naming.template === 'random_string') {
+    riskFactors.push('Random-looking username');
+  }
+
+  if (naming.template_sibling_count > 0) {
+    const siblings = naming.template_sibling_count;
+    riskFactors.push(`Username template shared by ${siblings} account${siblings === 1 ? '' : 's'} created the same week`);
+  }
+  
+  // Simple scoring algorithm; each increment is credited to the feature behind it
+  const ruleContributions: Record<string, number> = {};
+  const addScore = (feature: string, amount: number) => {
+    ruleContributions[feature] = (ruleContributions[feature] ?? 0) + amount;
+  };
+  
+  // Account age factor
+  if (user.account_age_days < 7) addScore('account_age_days', 0.3);
+  else if (user.account_age_days < 30) addScore('account_age_days', 0.2);
+  else if (user.account_age_days < 90) addScore('account_age_days', 0.1);
+  
+  // Karma factors
+  if (user.comment_karma < 5) addScore('comment_karma', 0.2);
+  if (user.link_karma === 0 && user.comment_karma === 0) addScore('link_karma', 0.3);
+  
+  // Activity patterns
+  if (user.posting_frequency > 5) addScore('posting_frequency', 0.2);
+  if (user.avg_post_score < 1) addScore('avg_post_score', 0.1);
+  
+  // Verification factors
+  if (!user.has_verified_email) addScore('has_verified_email', 0.1);
+  if (!user.is_verified && user.account_age_days > 365) addScore('is_verified', 0.05);
+
+  // Temporal factors
+  if (hasTemporalSignal) {
+    if (temporal.event_count >= 24 && temporal.hour_of_day_entropy > 0.9) addScore('hour_of_day_entropy', 0.15);
+    if (temporal.longest_awake_span_hours > 20) addScore('longest_awake_span_hours', 0.15);
+    if (temporal.burstiness < -0.5) addScore('burstiness', 0.15);
+    if (temporal.exact_minute_periodicity > 0.5) addScore('exact_minute_periodicity', 0.2);
+  }
+
+  // Content duplication factors
+  if (duplication.cross_account_duplicate_count >= 2) addScore('cross_account_duplicate_count', 0.25);
+  else if (duplication.cross_account_duplicate_count === 1) addScore('cross_account_duplicate_count', 0.1);
+  if (duplication.document_count >= 3 && duplication.self_duplication_ratio > 0.3) addScore('self_duplication_ratio', 0.15);
+
+  // Username factors; a generated name alone is common among real users, a batch of them is not
+  if (naming.template === 'random_string') addScore('templated_username', 0.1);
+  else if (naming.template !== 'none') addScore('templated_username', 0.05);
+  if (naming.template_sibling_count >= 2) addScore('template_sibling_count', 0.25);
+  else if (naming.template_sibling_count === 1) addScore('template_sibling_count', 0.1);
+
+  const botScore = Object.values(ruleContributions).reduce((a, b) => a + b, 0);
+  const ruleScore = Math.min(botScore, 1);
+  const modelInput = scaledFeatures(user);
+  const anomalyScore = detector ? detector.score(modelInput) : null;
+
+  if (detector && detector.isOutlier(modelInput)) {
+    riskFactors.push('Statistical outlier among analysed accounts');
+  }
+
+  const classifierScore = classifier ? classifier.model.predict(modelInput) : null;
+
+  let botProbability = ruleScore;
+  let detectionMethod = 'rule_based_scoring';
+  let scoreWeights = { rule: 1, anomaly: 0, classifier: 0 };
+
+  if (classifierScore !== null) {
+    botProbability = classifierScore;
+    detectionMethod = 'logistic_regression';
+    scoreWeights = { rule: 0, anomaly: 0, classifier: 1 };
+  } else if (anomalyScore !== null) {
+    botProbability = RULE_WEIGHT * ruleScore + ANOMALY_WEIGHT * anomalyScore;
+    detectionMethod = 'rule_based_scoring+isolation_forest';
+    scoreWeights = { rule: RULE_WEIGHT, anomaly: ANOMALY_WEIGHT, classifier: 0 };
+  }
+
+  // Attribute the final score to features the same way it was computed
+  const rawFeatures = extractFeatures(user);
+  const contributions: Record<string, number> = {};
+  const extraContributions: FeatureContribution[] = [];
+  let baseline = 0;
+
+  if (classifier && classifierScore !== null) {
+    baseline = classifier.model.baselineProbability;
+    const shares = distributeLogOdds(classifier.model.contributions(modelInput), classifierScore - baseline);
+    FEATURE_NAMES.forEach((feature, j) => { contributions[feature] = shares[j]; });
+  } else {
+    // The rule score is capped at 1, so scale the increments down to match
+    const capScale = botScore > 1 ? 1 / botScore : 1;
+    for (const [feature, amount] of Object.entries(ruleContributions)) {
+      contributions[feature] = amount * capScale * scoreWeights.rule;
+    }
+    if (anomalyScore !== null) {
+      extraContributions.push({
+        feature: 'isolation_forest_anomaly',
+        value: anomalyScore,
+        percentile: null,
+        contribution: ANOMALY_WEIGHT * anomalyScore
+      });
+    }
+  }
+
+  const scoreExplanation = buildExplanation(
+    detectionMethod,
+    FEATURE_NAMES,
+    rawFeatures,
+    contributions,
+    baseline,
+    botProbability,
+    population,
+    extraContributions
+  );
+
+  const confidenceScore = riskFactors.length > 0 ? 0.7 + (riskFactors.length * 0.1) : 0.5;
+  
+  return {
+    username: user.username,
+    bot_probability: botProbability,
+    confidence_score: Math.min(confidenceScore, 1),
+    detection_method: detectionMethod,
+    features_analyzed: {
+      rule_score: ruleScore,
+      anomaly_score: anomalyScore,
+      classifier_score: classifierScore,
+      classifier_model_id: classifier?.id ?? null,
+      classifier_model_version: classifier?.version ?? null,
+      score_weights: scoreWeights,
+      account_age_days: user.account_age_days,
+      comment_karma: user.comment_karma,
+      link_karma: user.link_karma,
+      karma_ratio: karmaRatio,
+      posting_frequency: user.posting_frequency,
+      avg_post_score: user.avg_post_score,
+      is_verified: user.is_verified,
+      has_verified_email: user.has_verified_email,
+      is_premium: user.is_premium,
+      temporal: temporal,
+      duplication: {
+        ...duplication,
+        // Keep the stored row small; the count carries the signal
+        shared_with: duplication.shared_with.slice(0, 10)
+      },
+      naming: {
+        ...naming,
+        siblings: naming.siblings.slice(0, 10)
+      }
+    },
+    score_explanation: scoreExplanation,
+    risk_factors: riskFactors
+  };
+}
+
+// Identifies the exact scorer behind a result. Together with the session,
+// username and method it keys a row in bot_detection_results.
+export function scorerVersion(
+  detectionMethod: string,
+  classifier: TrainedClassifier | null,
+  detector: IsolationForest | null,
+  anomalyModelId: string | null,
+): string {
+  if (classifier) {
+    return `logistic_regression:${classifier.id}@v${classifier.version}`;
+  }
+  if (detector && detectionMethod.includes('isolation_forest')) {
+    const forest = anomalyModelId ?? `fitted-seed${detector.options.seed}`;
+    return `rules@v${RULES_VERSION}+isolation_forest:${forest}`;
+  }
+  return `rules@v${RULES_VERSION}`;
+}
+
+// Stored models are tied to the feature vector they were fitted on
+function assertCurrentFeatures(featureNames: string[], description: string) {
+  if (featureNames.join(',') !== FEATURE_NAMES.join(',')) {
+    throw new Error(`The ${description} was fitted on an older feature set; retrain it before scoring`);
+  }
+}
+
+// Load the requested classifier, or the most recently trained one
+export async function loadClassifier(
+  supabaseClient: ReturnType<typeof createClient>,
+  modelId?: string,
+): Promise<TrainedClassifier> {
+  let modelQuery = supabaseClient
+    .from('classifier_models')
+    .select('id, version, model');
+
+  modelQuery = modelId
+    ? modelQuery.eq('id', modelId)
+    : modelQuery.order('created_at', { ascending: false }).limit(1);
+
+  const { data: model, error: modelError } = await modelQuery.single();
+
+  if (modelError) {
+    throw new Error(`Failed to load classifier model: ${modelError.message}`);
+  }
+
+  const classifier = LogisticRegression.fromJSON(model.model as SerializedLogisticRegression);
+  assertCurrentFeatures(classifier.featureNames, `classifier ${model.id}`);
+
+  return {
+    id: model.id,
+    version: model.version,
+    model: classifier
+  };
+}
+
+export async function loadAnomalyModel(
+  supabaseClient: ReturnType<typeof createClient>,
+  modelId: string,
+): Promise<IsolationForest> {
+  const { data: model, error: modelError } = await supabaseClient
+    .from('anomaly_models')
+    .select('model')
+    .eq('id', modelId)
+    .single();
+
+  if (modelError) {
+    throw new Error(`Failed to load anomaly model: ${modelError.message}`);
+  }
+
+  const forest = IsolationForest.fromJSON(model.model as SerializedIsolationForest);
+  assertCurrentFeatures(forest.featureNames, `anomaly model ${modelId}`);
+  return forest;
+}
@@ -0,0 +1,108 @@
+// Temporal behaviour features computed from post and comment timestamps.
+//
+// Scheduled bots tend to post around the clock, on fixed cadences and with
+// whole-minute spacing; people cluster activity into waking hours and bursts.
+
+export interface TemporalFeatures {
+  event_count: number;
+  interval_mean_seconds: number;
+  interval_median_seconds: number;
+  interval_std_seconds: number;
+  interval_min_seconds: number;
+  // (σ - μ) / (σ + μ): -1 perfectly regular, 0 random (Poisson), towards 1 bursty
+  burstiness: number;
+  // Shannon entropy normalised to [0, 1]; 1 means activity is spread evenly
+  hour_of_day_entropy: number;
+  day_of_week_entropy: number;
+  longest_awake_span_hours: number;
+  // Share of gaps between consecutive events that are an exact number of minutes
+  exact_minute_periodicity: number;
+}
+
+// Below this many events interval statistics are meaningless
+export const MIN_TEMPORAL_EVENTS = 5;
+
+// A gap this long ends an "awake" span; people rarely go this long awake without one
+const AWAKE_GAP_SECONDS = 3 * 60 * 60;
+
+export const EMPTY_TEMPORAL_FEATURES: TemporalFeatures = {
+  event_count: 0,
+  interval_mean_seconds: 0,
+  interval_median_seconds: 0,
+  interval_std_seconds: 0,
+  interval_min_seconds: 0,
+  burstiness: 0,
+  hour_of_day_entropy: 0,
+  day_of_week_entropy: 0,
+  longest_awake_span_hours: 0,
+  exact_minute_periodicity: 0,
+};
+
+function normalisedEntropy(counts: number[]): number {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy / Math.log2(counts.length);
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// `timestamps` are Reddit created_utc values (seconds since the epoch, UTC)
+export function computeTemporalFeatures(timestamps: number[]): TemporalFeatures {
+  const events = timestamps.filter(t => Number.isFinite(t) && t > 0).sort((a, b) => a - b);
+  if (events.length < MIN_TEMPORAL_EVENTS) {
+    return { ...EMPTY_TEMPORAL_FEATURES, event_count: events.length };
+  }
+
+  const intervals: number[] = [];
+  for (let i = 1; i < events.length; i++) {
+    intervals.push(events[i] - events[i - 1]);
+  }
+
+  const mean = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+  const std = Math.sqrt(intervals.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / intervals.length);
+  const sortedIntervals = [...intervals].sort((a, b) => a - b);
+
+  const hourCounts = new Array(24).fill(0);
+  const dayCounts = new Array(7).fill(0);
+  for (const t of events) {
+    const date = new Date(t * 1000);
+    hourCounts[date.getUTCHours()]++;
+    dayCounts[date.getUTCDay()]++;
+  }
+
+  let longestSpan = 0;
+  let spanStart = events[0];
+  for (let i = 1; i <= events.length; i++) {
+    if (i === events.length || events[i] - events[i - 1] > AWAKE_GAP_SECONDS) {
+      longestSpan = Math.max(longestSpan, events[i - 1] - spanStart);
+      if (i < events.length) spanStart = events[i];
+    }
+  }
+
+  // Zero-length gaps are duplicates, not evidence of a schedule
+  const positiveIntervals = intervals.filter(v => v > 0);
+  const wholeMinuteIntervals = positiveIntervals.filter(v => v % 60 === 0).length;
+
+  return {
+    event_count: events.length,
+    interval_mean_seconds: mean,
+    interval_median_seconds: median(sortedIntervals),
+    interval_std_seconds: std,
+    interval_min_seconds: sortedIntervals[0],
+    burstiness: std + mean > 0 ? (std - mean) / (std + mean) : 0,
+    hour_of_day_entropy: normalisedEntropy(hourCounts),
+    day_of_week_entropy: normalisedEntropy(dayCounts),
+    longest_awake_span_hours: longestSpan / 3600,
+    exact_minute_periodicity: positiveIntervals.length > 0 ? wholeMinuteIntervals / positiveIntervals.length : 0,
+  };
+}
@@ -0,0 +1,233 @@
+// Near-duplicate text detection with character shingles, MinHash and LSH.
+//
+// Documents are post titles/bodies and comment bodies. Candidate pairs come
+// from LSH buckets and are confirmed by their estimated Jaccard similarity;
+// confirmed pairs are merged into clusters with union-find.
+
+export interface TextDocument {
+  id: string;
+  author: string;
+  text: string;
+}
+
+export interface DuplicateCluster {
+  document_ids: string[];
+  authors: string[];
+}
+
+export interface DuplicationFeatures {
+  document_count: number;
+  // Share of the author's documents that near-duplicate another of their own
+  self_duplication_ratio: number;
+  // Number of other accounts posting near-duplicates of this author's text
+  cross_account_duplicate_count: number;
+  shared_with: string[];
+}
+
+export interface SimilarityOptions {
+  shingleSize?: number;
+  numHashes?: number;
+  bands?: number;
+  threshold?: number;
+  minLength?: number;
+}
+
+const DEFAULT_OPTIONS: Required<SimilarityOptions> = {
+  shingleSize: 5,
+  numHashes: 64,
+  // 16 bands of 4 rows puts the LSH S-curve midpoint near 0.5 similarity
+  bands: 16,
+  threshold: 0.7,
+  // Short texts ("thanks!", "this") collide by chance and say nothing
+  minLength: 20,
+};
+
+export const EMPTY_DUPLICATION_FEATURES: DuplicationFeatures = {
+  document_count: 0,
+  self_duplication_ratio: 0,
+  cross_account_duplicate_count: 0,
+  shared_with: [],
+};
+
+export function normaliseText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function shingles(text: string, size: number): Set<number> {
+  const result = new Set<number>();
+  if (text.length <= size) {
+    result.add(fnv1a(text));
+    return result;
+  }
+  for (let i = 0; i <= text.length - size; i++) {
+    result.add(fnv1a(text.slice(i, i + size)));
+  }
+  return result;
+}
+
+// Universal hash family h(x) = (a * x + b) mod p with fixed coefficients,
+// so signatures are comparable across runs
+const MERSENNE_PRIME = 2147483647;
+
+function hashCoefficients(count: number): [number, number][] {
+  const coefficients: [number, number][] = [];
+  let state = 0x9e3779b9;
+  const next = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state % MERSENNE_PRIME;
+  };
+  for (let i = 0; i < count; i++) {
+    coefficients.push([next() || 1, next()]);
+  }
+  return coefficients;
+}
+
+function mulMod(a: number, b: number, mod: number): number {
+  // Split b to keep intermediate products inside double precision
+  const high = Math.floor(b / 65536);
+  const low = b % 65536;
+  return (((a * high) % mod) * 65536 + a * low) % mod;
+}
+
+export function minHashSignature(shingleSet: Set<number>, coefficients: [number, number][]): number[] {
+  const signature = new Array(coefficients.length).fill(Infinity);
+  for (const shingle of shingleSet) {
+    const x = shingle % MERSENNE_PRIME;
+    for (let i = 0; i < coefficients.length; i++) {
+      const [a, b] = coefficients[i];
+      const value = (mulMod(a, x, MERSENNE_PRIME) + b) % MERSENNE_PRIME;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+export function estimatedJaccard(a: number[], b: number[]): number {
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+export function findDuplicateClusters(documents: TextDocument[], options: SimilarityOptions = {}): DuplicateCluster[] {
+  const { shingleSize, numHashes, bands, threshold, minLength } = { ...DEFAULT_OPTIONS, ...options };
+  const rows = Math.floor(numHashes / bands);
+  const coefficients = hashCoefficients(numHashes);
+
+  const candidates = documents
+    .map(doc => ({ doc, text: normaliseText(doc.text) }))
+    .filter(({ text }) => text.length >= minLength);
+  const signatures = candidates.map(({ text }) => minHashSignature(shingles(text, shingleSize), coefficients));
+
+  // Union-find over candidate indices
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const compared = new Set<string>();
+  for (let band = 0; band < bands; band++) {
+    const buckets = new Map<string, number[]>();
+    for (let i = 0; i < signatures.length; i++) {
+      const key = signatures[i].slice(band * rows, (band + 1) * rows).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+
+    for (const bucket of buckets.values()) {
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) {
+          const pairKey = `${bucket[x]}:${bucket[y]}`;
+          if (compared.has(pairKey)) continue;
+          compared.add(pairKey);
+
+          if (estimatedJaccard(signatures[bucket[x]], signatures[bucket[y]]) >= threshold) {
+            parent[find(bucket[x])] = find(bucket[y]);
+          }
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < candidates.length; i++) {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(i);
+    else groups.set(root, [i]);
+  }
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({
+      document_ids: group.map(i => candidates[i].doc.id),
+      authors: [...new Set(group.map(i => candidates[i].doc.author))],
+    }));
+}
+
+export function duplicationFeaturesByAuthor(
+  documents: TextDocument[],
+  clusters: DuplicateCluster[],
+): Map<string, DuplicationFeatures> {
+  const authorById = new Map(documents.map(doc => [doc.id, doc.author]));
+  const features = new Map<string, DuplicationFeatures>();
+  const selfDuplicated = new Map<string, number>();
+  const sharedWith = new Map<string, Set<string>>();
+
+  for (const doc of documents) {
+    features.set(doc.author, {
+      ...EMPTY_DUPLICATION_FEATURES,
+      document_count: (features.get(doc.author)?.document_count ?? 0) + 1,
+    });
+  }
+
+  for (const cluster of clusters) {
+    const countByAuthor = new Map<string, number>();
+    for (const id of cluster.document_ids) {
+      const author = authorById.get(id)!;
+      countByAuthor.set(author, (countByAuthor.get(author) ?? 0) + 1);
+    }
+
+    for (const [author, count] of countByAuthor) {
+      if (count > 1) selfDuplicated.set(author, (selfDuplicated.get(author) ?? 0) + count);
+
+      const others = sharedWith.get(author) ?? new Set<string>();
+      for (const other of cluster.authors) {
+        if (other !== author) others.add(other);
+      }
+      sharedWith.set(author, others);
+    }
+  }
+
+  for (const [author, feature] of features) {
+    const others = [...(sharedWith.get(author) ?? [])].sort();
+    features.set(author, {
+      document_count: feature.document_count,
+      self_duplication_ratio: (selfDuplicated.get(author) ?? 0) / feature.document_count,
+      cross_account_duplicate_count: others.length,
+      shared_with: others,
+    });
+  }
+
+  return features;
+}
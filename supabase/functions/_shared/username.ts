@@ -0,0 +1,141 @@
+// Username pattern analysis.
+//
+// Reddit offers auto-generated handles (Adjective_Noun_1234) at sign-up and
+// account farms script similar templates. One such name means little, since
+// plenty of people keep the suggestion, but several accounts sharing a shape
+// and created within days of each other look like a batch.
+
+export type UsernameTemplate =
+  | 'reddit_generated'
+  | 'camel_words_digits'
+  | 'word_digits'
+  | 'random_string'
+  | 'none';
+
+export interface UsernameFeatures {
+  template: UsernameTemplate;
+  // Coarse shape used to match siblings, e.g. Aa_Aa_9999
+  shape: string;
+  // Shannon entropy of the characters, in bits per character
+  character_entropy: number;
+  digit_suffix_length: number;
+  // Accounts in the dataset with the same template and shape created within SIBLING_WINDOW_SECONDS
+  template_sibling_count: number;
+  siblings: string[];
+}
+
+export interface NamedAccount {
+  username: string;
+  account_created_utc: number | null;
+}
+
+// Accounts created further apart than this are not treated as one batch
+export const SIBLING_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+const TEMPLATE_PATTERNS: [UsernameTemplate, RegExp][] = [
+  // Reddit's suggestions: Brave_Toaster_4821, Quiet-Lamp-9032, SoftOwl1234
+  ['reddit_generated', /^[A-Z][a-z]+[-_]?[A-Z][a-z]+[-_]?\d{1,4}$/],
+  ['camel_words_digits', /^([A-Z][a-z]+){2,}\d{2,}$/],
+  ['word_digits', /^[a-z]+\d{3,}$/i],
+];
+
+const VOWELS = /[aeiou]/gi;
+
+export const EMPTY_USERNAME_FEATURES: UsernameFeatures = {
+  template: 'none',
+  shape: '',
+  character_entropy: 0,
+  digit_suffix_length: 0,
+  template_sibling_count: 0,
+  siblings: [],
+};
+
+export function characterEntropy(value: string): number {
+  if (value.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export function digitSuffixLength(username: string): number {
+  return username.match(/\d+$/)?.[0].length ?? 0;
+}
+
+export function usernameShape(username: string): string {
+  return username
+    .replace(/[A-Z][a-z]+/g, 'Aa')
+    .replace(/[a-z]+/g, 'a')
+    .replace(/[A-Z]+/g, 'A')
+    .replace(/\d/g, '9');
+}
+
+export function classifyUsername(username: string): UsernameTemplate {
+  for (const [template, pattern] of TEMPLATE_PATTERNS) {
+    if (pattern.test(username)) return template;
+  }
+
+  // Long, vowel-poor alphanumeric strings read as keyboard mash or random output
+  const vowelRatio = (username.match(VOWELS)?.length ?? 0) / username.length;
+  if (/^[a-z0-9]{8,}$/i.test(username) && /\d/.test(username) && vowelRatio < 0.2) {
+    return 'random_string';
+  }
+
+  return 'none';
+}
+
+export function analyzeUsername(username: string): UsernameFeatures {
+  return {
+    template: classifyUsername(username),
+    shape: usernameShape(username),
+    character_entropy: characterEntropy(username),
+    digit_suffix_length: digitSuffixLength(username),
+    template_sibling_count: 0,
+    siblings: [],
+  };
+}
+
+// Analyse every account and link templated names of the same shape created close together
+export function usernameFeaturesByAccount(accounts: NamedAccount[]): Map<string, UsernameFeatures> {
+  const features = new Map(accounts.map(account => [account.username, analyzeUsername(account.username)]));
+
+  const groups = new Map<string, NamedAccount[]>();
+  for (const account of accounts) {
+    const feature = features.get(account.username)!;
+    if (feature.template === 'none' || !account.account_created_utc) continue;
+
+    const key = `${feature.template}:${feature.shape}`;
+    const group = groups.get(key);
+    if (group) group.push(account);
+    else groups.set(key, [account]);
+  }
+
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const sorted = [...group].sort((a, b) => a.account_created_utc! - b.account_created_utc!);
+
+    for (let i = 0; i < sorted.length; i++) {
+      const siblings: string[] = [];
+      for (let j = 0; j < sorted.length; j++) {
+        if (i === j) continue;
+        if (Math.abs(sorted[j].account_created_utc! - sorted[i].account_created_utc!) <= SIBLING_WINDOW_SECONDS) {
+          siblings.push(sorted[j].username);
+        }
+      }
+
+      const feature = features.get(sorted[i].username)!;
+      feature.siblings = siblings.sort();
+      feature.template_sibling_count = siblings.length;
+    }
+  }
+
+  return features;
+}
@@ -1,10 +1,85 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  PIPELINE_STAGES,
+  PipelineStage,
+  TERMINAL_SESSION_STATUSES,
+  enqueueJob,
+  kickWorker,
+  loadSessionUsernames,
+  nextStage
+} from '../_shared/jobs.ts'
+import { ComparedCluster, ComparedResult, compareSessions } from '../_shared/comparison.ts'
+import { FEATURE_NAMES } from '../_shared/features.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+import { LISTING_SORTS, LISTING_TIME_WINDOWS } from '../_shared/reddit-client.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+async function assertNoActiveJobs(supabaseClient: ReturnType<typeof createClient>, sessionId: string) {
+  const { data: activeJobs, error } = await supabaseClient
+    .from('analysis_jobs')
+    .select('id')
+    .eq('session_id', sessionId)
+    .in('status', ['queued', 'running']);
+
+  if (error) {
+    throw new Error(`Failed to check running jobs: ${error.message}`);
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw new Error(`Session ${sessionId} already has an analysis in progress`);
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Everything compare needs from one session
+async function loadComparisonData(supabaseClient: ReturnType<typeof createClient>, sessionId: string) {
+  const { data: session, error: sessionError } = await supabaseClient
+    .from('analysis_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+
+  if (sessionError) {
+    throw new Error(`Failed to get session ${sessionId}: ${sessionError.message}`);
+  }
+
+  const accounts = await loadSessionUsernames(supabaseClient, sessionId);
+  if (accounts.length === 0) {
+    throw new Error(`Session ${sessionId} has no extracted accounts to compare`);
+  }
+
+  const results = await fetchAllRows((from, to) => supabaseClient
+    .from('bot_detection_results')
+    .select('id, username, bot_probability, analysis_timestamp, score_explanation')
+    .eq('session_id', sessionId)
+    .order('id')
+    .range(from, to), 'session results');
+
+  const clusters = await fetchAllRows((from, to) => supabaseClient
+    .from('coordination_clusters')
+    .select('id, density, coordination_cluster_members(username)')
+    .eq('session_id', sessionId)
+    .order('id')
+    .range(from, to), 'session clusters');
+
+  return {
+    session,
+    accounts,
+    results: results as ComparedResult[],
+    clusters: clusters.map(cluster => ({
+      id: cluster.id,
+      density: cluster.density,
+      members: (cluster.coordination_cluster_members || []).map((member: { username: string }) => member.username)
+    })) as ComparedCluster[]
+  };
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -16,9 +91,35 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
     )
 
-    const { action, session_name, subreddit, session_id } = await req.json();
+    const {
+      action,
+      session_name,
+      subreddit,
+      session_id,
+      stage,
+      max_posts = 100,
+      sort = 'hot',
+      t = 'day',
+      crawl_user_history = false,
+      detection_method,
+      base_session_id,
+      target_session_id,
+      threshold = 0.5,
+      page,
+      page_size,
+      status,
+      search
+    } = await req.json();
 
     if (action === 'create') {
+      // Checked here rather than surfacing as a failed extraction job
+      if (!LISTING_SORTS.includes(sort)) {
+        throw new Error(`Unsupported listing sort: ${sort}. Expected one of ${LISTING_SORTS.join(', ')}`);
+      }
+      if (!LISTING_TIME_WINDOWS.includes(t)) {
+        throw new Error(`Unsupported time window: ${t}. Expected one of ${LISTING_TIME_WINDOWS.join(', ')}`);
+      }
+
       // Create new analysis session
       const { data, error } = await supabaseClient
         .from('analysis_sessions')
@@ -28,6 +129,11 @@ Deno.serve(async (req) => {
           status: 'pending',
           analysis_parameters: {
             subreddit: subreddit,
+            max_posts: max_posts,
+            sort: sort,
+            t: t,
+            crawl_user_history: crawl_user_history,
+            detection_method: detection_method,
             created_at: new Date().toISOString()
           }
         })
@@ -60,19 +166,67 @@ Deno.serve(async (req) => {
         throw new Error(`Failed to get session: ${error.message}`);
       }
 
+      // Verdicts produced by this session's runs
+      const results = await fetchAllRows((from, to) => supabaseClient
+        .from('bot_detection_results')
+        .select('*')
+        .eq('session_id', session_id)
+        .order('bot_probability', { ascending: false })
+        .order('id')
+        .range(from, to), 'session results');
+
+      const { data: jobs, error: jobsError } = await supabaseClient
+        .from('analysis_jobs')
+        .select('*')
+        .eq('session_id', session_id)
+        .order('created_at', { ascending: true });
+
+      if (jobsError) {
+        throw new Error(`Failed to get session jobs: ${jobsError.message}`);
+      }
+
+      const { data: progress, error: progressError } = await supabaseClient
+        .from('analysis_progress')
+        .select('*')
+        .eq('session_id', session_id);
+
+      if (progressError) {
+        throw new Error(`Failed to get session progress: ${progressError.message}`);
+      }
+
       return new Response(JSON.stringify({ 
         success: true,
-        session: data
+        session: data,
+        results,
+        jobs: jobs || [],
+        progress: progress || []
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
 
     } else if (action === 'list') {
-      // List all sessions
-      const { data, error } = await supabaseClient
+      // One page of sessions, newest first, optionally filtered
+      const pageSize = Math.min(Math.max(Number(page_size) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+      const pageNumber = Math.max(Number(page) || 1, 1);
+      const from = (pageNumber - 1) * pageSize;
+
+      let query = supabaseClient
         .from('analysis_sessions')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+      if (subreddit) {
+        query = query.ilike('subreddit', subreddit);
+      }
+      if (search) {
+        query = query.ilike('session_name', `%${search}%`);
+      }
+
+      const { data, error, count } = await query;
 
       if (error) {
         throw new Error(`Failed to list sessions: ${error.message}`);
@@ -80,7 +234,10 @@ Deno.serve(async (req) => {
 
       return new Response(JSON.stringify({ 
         success: true,
-        sessions: data || []
+        sessions: data || [],
+        total: count ?? 0,
+        page: pageNumber,
+        page_size: pageSize
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -106,7 +263,7 @@ Deno.serve(async (req) => {
       });
 
     } else if (action === 'run-full-analysis') {
-      // Run complete analysis pipeline
+      // Queue the pipeline; analysis-worker runs the stages in the background
       const { data: session, error: sessionError } = await supabaseClient
         .from('analysis_sessions')
         .select('*')
@@ -117,53 +274,189 @@ Deno.serve(async (req) => {
         throw new Error(`Failed to get session: ${sessionError.message}`);
       }
 
-      console.log(`Starting full analysis for session: ${session_id}`);
+      await assertNoActiveJobs(supabaseClient, session.id);
+
+      const job = await enqueueJob(supabaseClient, session.id, PIPELINE_STAGES[0]);
 
-      // Step 1: Extract Reddit data
-      const extractResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/reddit-extract`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
-        },
-        body: JSON.stringify({
-          subreddit: session.subreddit,
-          limit: 100,
-          session_id: session_id
+      // A full run starts over, so drop any checkpoint and progress from an earlier attempt
+      await supabaseClient
+        .from('analysis_progress')
+        .delete()
+        .eq('session_id', session_id);
+
+      await supabaseClient
+        .from('analysis_sessions')
+        .update({
+          status: 'queued',
+          error_message: null,
+          completed_at: null,
+          extraction_checkpoint: {},
+          last_completed_stage: null
         })
+        .eq('id', session_id);
+
+      kickWorker();
+
+      console.log(`Queued full analysis for session: ${session_id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        session_id: session_id,
+        job: job,
+        message: 'Analysis queued'
+      }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
 
-      if (!extractResponse.ok) {
-        throw new Error('Failed to extract Reddit data');
+    } else if (action === 'resume') {
+      // Continue after the last completed stage, reusing the extraction checkpoint
+      const { data: session, error: sessionError } = await supabaseClient
+        .from('analysis_sessions')
+        .select('*')
+        .eq('id', session_id)
+        .single();
+
+      if (sessionError) {
+        throw new Error(`Failed to get session: ${sessionError.message}`);
+      }
+
+      if (session.status === 'completed') {
+        throw new Error(`Session ${session_id} has already completed`);
+      }
+
+      await assertNoActiveJobs(supabaseClient, session.id);
+
+      const resumeStage = session.last_completed_stage
+        ? nextStage(session.last_completed_stage as PipelineStage)
+        : PIPELINE_STAGES[0];
+
+      if (!resumeStage) {
+        throw new Error(`Session ${session_id} has no stages left to run`);
       }
 
-      const extractResult = await extractResponse.json();
-      console.log('Reddit extraction completed:', extractResult);
+      const job = await enqueueJob(supabaseClient, session.id, resumeStage, resumeStage === 'extract' ? { resume: true } : {});
+
+      await supabaseClient
+        .from('analysis_sessions')
+        .update({ status: 'queued', error_message: null, completed_at: null })
+        .eq('id', session_id);
 
-      // Step 2: Run bot detection
-      const detectionResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/bot-detection`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
-        },
-        body: JSON.stringify({
-          session_id: session_id
+      kickWorker();
+
+      console.log(`Resuming session ${session_id} at stage ${resumeStage}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        session_id: session_id,
+        job: job,
+        message: `Analysis resumed at ${resumeStage}`
+      }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'retry-stage') {
+      // Re-run one stage from scratch; the stages after it follow as usual
+      if (!PIPELINE_STAGES.includes(stage)) {
+        throw new Error(`Unknown stage: ${stage}. Expected one of ${PIPELINE_STAGES.join(', ')}`);
+      }
+
+      await assertNoActiveJobs(supabaseClient, session_id);
+
+      const index = PIPELINE_STAGES.indexOf(stage);
+      const job = await enqueueJob(supabaseClient, session_id, stage);
+
+      await supabaseClient
+        .from('analysis_sessions')
+        .update({
+          status: 'queued',
+          error_message: null,
+          completed_at: null,
+          last_completed_stage: index > 0 ? PIPELINE_STAGES[index - 1] : null,
+          ...(stage === 'extract' ? { extraction_checkpoint: {} } : {})
         })
+        .eq('id', session_id);
+
+      kickWorker();
+
+      console.log(`Retrying stage ${stage} for session ${session_id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        session_id: session_id,
+        job: job,
+        message: `Stage ${stage} queued`
+      }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
 
-      if (!detectionResponse.ok) {
-        throw new Error('Failed to run bot detection');
+    } else if (action === 'cancel') {
+      // Running stages notice between batches; queued ones never start.
+      // A finished session keeps its outcome, even if it finished just now.
+      const { data, error } = await supabaseClient
+        .from('analysis_sessions')
+        .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+        .eq('id', session_id)
+        .not('status', 'in', `(${TERMINAL_SESSION_STATUSES.join(',')})`)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to cancel session: ${error.message}`);
       }
 
-      const detectionResult = await detectionResponse.json();
-      console.log('Bot detection completed:', detectionResult);
+      if (!data) {
+        const { data: existing } = await supabaseClient
+          .from('analysis_sessions')
+          .select('status')
+          .eq('id', session_id)
+          .maybeSingle();
 
-      return new Response(JSON.stringify({ 
+        throw new Error(existing
+          ? `Session ${session_id} has already ${existing.status === 'cancelled' ? 'been cancelled' : existing.status}`
+          : `Session ${session_id} not found`);
+      }
+
+      const { error: jobsError } = await supabaseClient
+        .from('analysis_jobs')
+        .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+        .eq('session_id', session_id)
+        .eq('status', 'queued');
+
+      if (jobsError) {
+        throw new Error(`Failed to cancel queued jobs: ${jobsError.message}`);
+      }
+
+      console.log(`Cancelled analysis session: ${session_id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        session: data,
+        message: 'Analysis session cancelled'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'compare') {
+      // What changed from the base session to the target session
+      if (!base_session_id || !target_session_id) {
+        throw new Error('base_session_id and target_session_id are required');
+      }
+
+      const base = await loadComparisonData(supabaseClient, base_session_id);
+      const target = await loadComparisonData(supabaseClient, target_session_id);
+
+      const comparison = compareSessions(base, target, FEATURE_NAMES, threshold);
+
+      console.log(`Compared sessions ${base_session_id} and ${target_session_id}: ${comparison.new_accounts.length} new accounts, ${comparison.threshold_crossings.length} threshold crossings`);
+
+      return new Response(JSON.stringify({
         success: true,
-        extraction_result: extractResult,
-        detection_result: detectionResult,
-        message: 'Full analysis pipeline completed successfully'
+        base_session: base.session,
+        target_session: target.session,
+        comparison
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -0,0 +1,324 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  AnalysisJob,
+  HEARTBEAT_INTERVAL_MS,
+  LEASE_SECONDS,
+  STAGE_FUNCTIONS,
+  STAGE_SESSION_STATUS,
+  enqueueJob,
+  isSessionCancelled,
+  kickWorker,
+  loadSessionUsernames,
+  nextStage,
+  retryDelaySeconds
+} from '../_shared/jobs.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stop claiming new jobs after this long and hand over to a fresh invocation,
+// well inside the edge function wall-clock limit
+const WORKER_TIME_BUDGET_MS = 100_000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Request body for the stage's edge function, built from the session at run time
+// so a retried stage picks up the session's current parameters
+async function stageRequestBody(supabaseClient: SupabaseClient, job: AnalysisJob) {
+  if (job.stage === 'extract') {
+    const { data: session, error } = await supabaseClient
+      .from('analysis_sessions')
+      .select('*')
+      .eq('id', job.session_id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get session: ${error.message}`);
+    }
+
+    return {
+      subreddit: session.subreddit,
+      max_posts: session.analysis_parameters?.max_posts ?? 100,
+      sort: session.analysis_parameters?.sort ?? 'hot',
+      t: session.analysis_parameters?.t ?? 'day',
+      crawl_user_history: session.analysis_parameters?.crawl_user_history ?? false,
+      session_id: job.session_id,
+      // A retried attempt continues from the checkpoint the failed one left
+      resume: job.attempts > 1,
+      ...job.payload
+    };
+  }
+
+  // Later stages analyze exactly the accounts this session extracted
+  const usernames = await loadSessionUsernames(supabaseClient, job.session_id);
+  if (usernames.length === 0) {
+    throw new Error('Extraction found no accounts to analyze');
+  }
+
+  if (job.stage === 'coordinate') {
+    return { action: 'analyze', session_id: job.session_id, usernames, ...job.payload };
+  }
+
+  const { data: session, error } = await supabaseClient
+    .from('analysis_sessions')
+    .select('analysis_parameters')
+    .eq('id', job.session_id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to get session: ${error.message}`);
+  }
+
+  // Sessions without a method keep bot-detection's default
+  const method = session.analysis_parameters?.detection_method;
+  return { session_id: job.session_id, usernames, ...(method ? { method } : {}), ...job.payload };
+}
+
+// Extend the lease while the stage runs; stop waiting on the stage if another
+// worker took the job over (the stage itself stops at its next lease check)
+function startHeartbeat(supabaseClient: SupabaseClient, job: AnalysisJob, workerId: string, controller: AbortController) {
+  return setInterval(async () => {
+    const { data, error } = await supabaseClient
+      .from('analysis_jobs')
+      .update({
+        heartbeat_at: new Date().toISOString(),
+        lease_expires_at: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString()
+      })
+      .eq('id', job.id)
+      .eq('lease_owner', workerId)
+      .eq('status', 'running')
+      .select('id');
+
+    if (error) {
+      console.error(`Heartbeat failed for job ${job.id}:`, error);
+    } else if (!data || data.length === 0) {
+      console.warn(`Lost lease on job ${job.id}, abandoning it`);
+      controller.abort();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+async function runStage(supabaseClient: SupabaseClient, job: AnalysisJob, workerId: string) {
+  const controller = new AbortController();
+  const heartbeat = startHeartbeat(supabaseClient, job, workerId, controller);
+
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/${STAGE_FUNCTIONS[job.stage]}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
+      },
+      body: JSON.stringify({
+        ...await stageRequestBody(supabaseClient, job),
+        lease: { job_id: job.id, lease_owner: workerId }
+      }),
+      signal: controller.signal
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error ?? `${STAGE_FUNCTIONS[job.stage]} returned ${response.status}`);
+    }
+
+    // Per-account results are already stored by the stage; keep the job row small
+    const { results: _results, ...summary } = body;
+    return summary;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function completeJob(supabaseClient: SupabaseClient, job: AnalysisJob, workerId: string, result: Record<string, unknown>) {
+  const { data: updated, error } = await supabaseClient
+    .from('analysis_jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      error_message: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to complete job: ${error.message}`);
+  }
+
+  // Another worker reclaimed the job after our lease lapsed; its run owns the outcome
+  if (!updated || updated.length === 0) return;
+
+  const next = nextStage(job.stage);
+  if (next) {
+    await enqueueJob(supabaseClient, job.session_id, next);
+    await supabaseClient
+      .from('analysis_sessions')
+      .update({ status: 'queued', last_completed_stage: job.stage })
+      .eq('id', job.session_id)
+      .neq('status', 'cancelled');
+  } else {
+    await supabaseClient
+      .from('analysis_sessions')
+      .update({
+        status: 'completed',
+        last_completed_stage: job.stage,
+        error_message: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', job.session_id)
+      .neq('status', 'cancelled');
+  }
+}
+
+// The session was cancelled: close the job without starting the next stage
+async function cancelJob(supabaseClient: SupabaseClient, job: AnalysisJob, workerId: string, result: Record<string, unknown> | null) {
+  const { error } = await supabaseClient
+    .from('analysis_jobs')
+    .update({
+      status: 'cancelled',
+      result,
+      lease_owner: null,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    throw new Error(`Failed to cancel job: ${error.message}`);
+  }
+}
+
+// Retry with backoff while attempts remain; earlier stages' output stays in place
+async function failJob(supabaseClient: SupabaseClient, job: AnalysisJob, workerId: string, message: string) {
+  const retry = job.attempts < job.max_attempts;
+
+  const { data: updated, error } = await supabaseClient
+    .from('analysis_jobs')
+    .update(retry
+      ? {
+        status: 'queued',
+        error_message: message,
+        lease_owner: null,
+        lease_expires_at: null,
+        run_after: new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000).toISOString()
+      }
+      : {
+        status: 'failed',
+        error_message: message,
+        lease_owner: null,
+        lease_expires_at: null,
+        finished_at: new Date().toISOString()
+      })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to record job failure: ${error.message}`);
+  }
+
+  if (!updated || updated.length === 0) return;
+
+  await supabaseClient
+    .from('analysis_sessions')
+    .update(retry
+      ? { status: 'queued', error_message: `${job.stage} failed (attempt ${job.attempts}), retrying: ${message}` }
+      : { status: 'failed', error_message: `${job.stage} failed after ${job.attempts} attempts: ${message}` })
+    .eq('id', job.session_id)
+    .neq('status', 'cancelled');
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const workerId = crypto.randomUUID();
+    const startedAt = Date.now();
+    const processed = [];
+
+    while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+      const { data: claimed, error: claimError } = await supabaseClient
+        .rpc('claim_analysis_job', { p_worker_id: workerId, p_lease_seconds: LEASE_SECONDS });
+
+      if (claimError) {
+        throw new Error(`Failed to claim job: ${claimError.message}`);
+      }
+
+      const job = (claimed as AnalysisJob[] | null)?.[0];
+      if (!job) break;
+
+      console.log(`Worker ${workerId} claimed ${job.stage} job ${job.id} (attempt ${job.attempts})`);
+
+      // A reclaimed job whose worker kept dying has used up its attempts
+      if (job.attempts > job.max_attempts) {
+        await failJob(supabaseClient, job, workerId, 'Lease expired on the final attempt');
+        processed.push({ job_id: job.id, stage: job.stage, status: 'failed' });
+        continue;
+      }
+
+      if (await isSessionCancelled(supabaseClient, job.session_id)) {
+        await cancelJob(supabaseClient, job, workerId, null);
+        processed.push({ job_id: job.id, stage: job.stage, status: 'cancelled' });
+        continue;
+      }
+
+      await supabaseClient
+        .from('analysis_sessions')
+        .update({ status: STAGE_SESSION_STATUS[job.stage] })
+        .eq('id', job.session_id)
+        .neq('status', 'cancelled');
+
+      try {
+        const result = await runStage(supabaseClient, job, workerId);
+
+        // Stages stop between batches once a session is cancelled; keep what they stored
+        if (result.cancelled || await isSessionCancelled(supabaseClient, job.session_id)) {
+          await cancelJob(supabaseClient, job, workerId, result);
+          processed.push({ job_id: job.id, stage: job.stage, status: 'cancelled' });
+          continue;
+        }
+
+        await completeJob(supabaseClient, job, workerId, result);
+        processed.push({ job_id: job.id, stage: job.stage, status: 'succeeded' });
+      } catch (error) {
+        const message = (error as Error).message;
+        console.error(`Job ${job.id} (${job.stage}) failed:`, message);
+        await failJob(supabaseClient, job, workerId, message);
+        processed.push({ job_id: job.id, stage: job.stage, status: 'failed', error: message });
+      }
+    }
+
+    // Out of time with work possibly left: let a fresh invocation carry on
+    if (Date.now() - startedAt >= WORKER_TIME_BUDGET_MS) {
+      kickWorker();
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      worker_id: workerId,
+      jobs_processed: processed
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in analysis-worker function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
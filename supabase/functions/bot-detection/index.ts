@@ -1,162 +1,58 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { IsolationForest } from '../_shared/isolation-forest.ts'
+import { FEATURE_NAMES, extractFeatures, loadUserAnalyses, scaledFeatures } from '../_shared/features.ts'
+import { PopulationPercentiles } from '../_shared/explanation.ts'
+import { LeaseLostError, assertLeaseHeld, isSessionCancelled, loadSessionUsernames } from '../_shared/jobs.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+import { ProgressReporter } from '../_shared/progress.ts'
+import {
+  DETECTION_METHODS,
+  MIN_ANOMALY_POPULATION,
+  analyzeBotProbability,
+  loadAnomalyModel,
+  loadClassifier,
+  scorerVersion
+} from '../_shared/scoring.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface UserAnalysis {
-  username: string;
-  account_age_days: number;
-  comment_karma: number;
-  link_karma: number;
-  is_verified: boolean;
-  has_verified_email: boolean;
-  is_premium: boolean;
-  post_count: number;
-  comment_count: number;
-  avg_post_score: number;
-  posting_frequency: number;
-}
-
-interface BotDetectionResult {
-  username: string;
-  bot_probability: number;
-  confidence_score: number;
-  detection_method: string;
-  features_analyzed: Record<string, any>;
-  risk_factors: string[];
-}
-
-// Isolation Forest-like algorithm for anomaly detection
-class SimpleAnomalyDetector {
-  private data: number[][] = [];
-  private featureNames: string[] = [];
+// PostgREST puts `in` filters in the URL, so long id lists go in chunks
+const ID_CHUNK_SIZE = 200;
 
-  constructor(featureNames: string[]) {
-    this.featureNames = featureNames;
-  }
-
-  fit(data: number[][]) {
-    this.data = data;
-  }
+// A session's verdicts must cover only the accounts it extracted. Verdicts for
+// any other account are deleted; extracted accounts left without a verdict
+// are returned so the caller can report them.
+async function reconcileSessionResults(
+  supabaseClient: ReturnType<typeof createClient>,
+  sessionId: string,
+  extracted: Set<string>,
+) {
+  const rows = await fetchAllRows((from, to) => supabaseClient
+    .from('bot_detection_results')
+    .select('id, username')
+    .eq('session_id', sessionId)
+    .order('id')
+    .range(from, to), 'session results');
 
-  // Simple anomaly score based on statistical deviation
-  predict(sample: number[]): number {
-    if (this.data.length === 0) return 0.5;
+  const strayIds = rows.filter(row => !extracted.has(row.username)).map(row => row.id);
+  for (let i = 0; i < strayIds.length; i += ID_CHUNK_SIZE) {
+    const { error } = await supabaseClient
+      .from('bot_detection_results')
+      .delete()
+      .in('id', strayIds.slice(i, i + ID_CHUNK_SIZE));
 
-    let anomalyScore = 0;
-    
-    for (let i = 0; i < sample.length; i++) {
-      const feature = sample[i];
-      const featureValues = this.data.map(row => row[i]);
-      
-      const mean = featureValues.reduce((a, b) => a + b, 0) / featureValues.length;
-      const variance = featureValues.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / featureValues.length;
-      const stdDev = Math.sqrt(variance);
-      
-      if (stdDev > 0) {
-        const zScore = Math.abs((feature - mean) / stdDev);
-        anomalyScore += Math.min(zScore / 3, 1); // Normalize to 0-1
-      }
+    if (error) {
+      throw new Error(`Failed to remove results outside the session: ${error.message}`);
     }
-    
-    return Math.min(anomalyScore / sample.length, 1);
   }
-}
-
-function extractFeatures(user: UserAnalysis): number[] {
-  const karmaRatio = user.link_karma + user.comment_karma > 0 
-    ? user.comment_karma / (user.link_karma + user.comment_karma) 
-    : 0;
-  
-  const postCommentRatio = user.comment_count > 0 
-    ? user.post_count / user.comment_count 
-    : user.post_count;
-  
-  return [
-    user.account_age_days || 0,
-    user.comment_karma || 0,
-    user.link_karma || 0,
-    karmaRatio,
-    user.posting_frequency || 0,
-    user.avg_post_score || 0,
-    postCommentRatio,
-    user.is_verified ? 1 : 0,
-    user.has_verified_email ? 1 : 0,
-    user.is_premium ? 1 : 0,
-  ];
-}
 
-function analyzeBotProbability(user: UserAnalysis): BotDetectionResult {
-  const features = extractFeatures(user);
-  const riskFactors: string[] = [];
-  
-  // Rule-based risk assessment
-  if (user.account_age_days < 30) {
-    riskFactors.push('Very new account');
-  }
-  
-  if (user.comment_karma < 10 && user.account_age_days > 90) {
-    riskFactors.push('Low karma for account age');
-  }
-  
-  if (user.posting_frequency > 10) {
-    riskFactors.push('High posting frequency');
-  }
-  
-  if (!user.has_verified_email && user.account_age_days > 7) {
-    riskFactors.push('Unverified email');
-  }
-  
-  const karmaRatio = user.link_karma + user.comment_karma > 0 
-    ? user.comment_karma / (user.link_karma + user.comment_karma) 
-    : 0;
-  
-  if (karmaRatio < 0.1 && user.link_karma > 100) {
-    riskFactors.push('Unusually high link karma ratio');
-  }
-  
-  // Simple scoring algorithm
-  let botScore = 0;
-  
-  // Account age factor
-  if (user.account_age_days < 7) botScore += 0.3;
-  else if (user.account_age_days < 30) botScore += 0.2;
-  else if (user.account_age_days < 90) botScore += 0.1;
-  
-  // Karma factors
-  if (user.comment_karma < 5) botScore += 0.2;
-  if (user.link_karma === 0 && user.comment_karma === 0) botScore += 0.3;
-  
-  // Activity patterns
-  if (user.posting_frequency > 5) botScore += 0.2;
-  if (user.avg_post_score < 1) botScore += 0.1;
-  
-  // Verification factors
-  if (!user.has_verified_email) botScore += 0.1;
-  if (!user.is_verified && user.account_age_days > 365) botScore += 0.05;
-  
-  const botProbability = Math.min(botScore, 1);
-  const confidenceScore = riskFactors.length > 0 ? 0.7 + (riskFactors.length * 0.1) : 0.5;
-  
+  const scored = new Set(rows.map(row => row.username));
   return {
-    username: user.username,
-    bot_probability: botProbability,
-    confidence_score: Math.min(confidenceScore, 1),
-    detection_method: 'rule_based_scoring',
-    features_analyzed: {
-      account_age_days: user.account_age_days,
-      comment_karma: user.comment_karma,
-      link_karma: user.link_karma,
-      karma_ratio: karmaRatio,
-      posting_frequency: user.posting_frequency,
-      avg_post_score: user.avg_post_score,
-      is_verified: user.is_verified,
-      has_verified_email: user.has_verified_email,
-      is_premium: user.is_premium
-    },
-    risk_factors: riskFactors
+    removed: strayIds.length,
+    unscored: [...extracted].filter(username => !scored.has(username))
   };
 }
 
@@ -165,123 +61,201 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Declared outside the try so a failure can be reported against it
+  let activeProgress: ProgressReporter | null = null;
+
   try {
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
     )
 
-    const { session_id, usernames } = await req.json();
+    const {
+      session_id,
+      usernames,
+      method = 'hybrid',
+      classifier_model_id,
+      anomaly_model_id,
+      save_anomaly_model = false,
+      n_trees = 100,
+      sample_size = 256,
+      contamination = 0.1,
+      seed = 42,
+      lease
+    } = await req.json();
     
-    console.log(`Starting bot detection analysis for session: ${session_id}`);
+    console.log(`Starting bot detection analysis for session: ${session_id}, method: ${method}`);
+
+    const progress = new ProgressReporter(supabaseClient, session_id, 'detect');
+    activeProgress = progress;
+
+    if (!DETECTION_METHODS.includes(method)) {
+      throw new Error(`Unknown detection method: ${method}. Expected one of ${DETECTION_METHODS.join(', ')}`);
+    }
 
     // Update session status
     if (session_id) {
       await supabaseClient
         .from('analysis_sessions')
         .update({ status: 'analyzing' })
-        .eq('id', session_id);
+        .eq('id', session_id)
+        .neq('status', 'cancelled');
     }
 
-    // Get users to analyze
-    let query = supabaseClient
-      .from('reddit_accounts')
-      .select('*');
-    
-    if (usernames && usernames.length > 0) {
-      query = query.in('username', usernames);
-    }
-    
-    const { data: users, error: usersError } = await query;
-    
-    if (usersError) {
-      throw new Error(`Failed to fetch users: ${usersError.message}`);
+    // A session scores the accounts it extracted, or a subset of them
+    let requestedUsernames: string[] | undefined = usernames;
+    let sessionUsernames: Set<string> | null = null;
+    if (session_id) {
+      const extracted = new Set(await loadSessionUsernames(supabaseClient, session_id));
+      if (extracted.size === 0) {
+        throw new Error(`Session ${session_id} has no extracted accounts to analyze`);
+      }
+
+      const outside = (usernames ?? []).filter((username: string) => !extracted.has(username));
+      if (outside.length > 0) {
+        throw new Error(`${outside.length} requested accounts were not extracted by session ${session_id}`);
+      }
+      sessionUsernames = extracted;
+      requestedUsernames = usernames ?? [...extracted];
     }
 
-    if (!users || users.length === 0) {
+    // Get users to analyze, with their post and comment activity
+    await progress.start({ items_total: requestedUsernames?.length ?? null, message: 'Loading account activity' });
+    const userAnalyses = await loadUserAnalyses(supabaseClient, requestedUsernames, (done, total, username) =>
+      progress.update({ items_done: done, items_total: total, current_item: username })
+    );
+
+    if (userAnalyses.length === 0) {
       throw new Error('No users found for analysis');
     }
 
-    console.log(`Analyzing ${users.length} users for bot behavior`);
+    await progress.update({ items_done: userAnalyses.length, current_item: null, message: 'Scoring accounts' });
 
-    // Get post and comment counts for each user
-    const analysisResults: BotDetectionResult[] = [];
-    
-    for (const user of users) {
-      // Get post count and average score
-      const { data: posts } = await supabaseClient
-        .from('reddit_posts')
-        .select('score')
-        .eq('author_username', user.username);
-      
-      // Get comment count
-      const { data: comments } = await supabaseClient
-        .from('reddit_comments')
-        .select('id')
-        .eq('author_username', user.username);
-      
-      const postCount = posts?.length || 0;
-      const commentCount = comments?.length || 0;
-      const avgPostScore = postCount > 0 
-        ? posts!.reduce((sum, post) => sum + (post.score || 0), 0) / postCount 
-        : 0;
-      
-      const postingFrequency = user.account_age_days > 0 
-        ? (postCount + commentCount) / user.account_age_days 
-        : 0;
-      
-      const userAnalysis: UserAnalysis = {
-        username: user.username,
-        account_age_days: user.account_age_days || 0,
-        comment_karma: user.comment_karma || 0,
-        link_karma: user.link_karma || 0,
-        is_verified: user.is_verified || false,
-        has_verified_email: user.has_verified_email || false,
-        is_premium: user.is_premium || false,
-        post_count: postCount,
-        comment_count: commentCount,
-        avg_post_score: avgPostScore,
-        posting_frequency: postingFrequency
-      };
-      
-      const result = analyzeBotProbability(userAnalysis);
-      analysisResults.push(result);
+    console.log(`Analyzing ${userAnalyses.length} users for bot behavior`);
+
+    // Load the requested classifier, or the most recently trained one
+    const classifier = method === 'supervised'
+      ? await loadClassifier(supabaseClient, classifier_model_id)
+      : null;
+
+    // Score against a stored baseline forest, or fit one on this population
+    let detector: IsolationForest | null = null;
+    let anomalyModelId: string | null = method === 'hybrid' ? anomaly_model_id ?? null : null;
+
+    // Rules and classifier scores do not use the forest
+    if (method === 'hybrid') {
+      if (anomaly_model_id) {
+        detector = await loadAnomalyModel(supabaseClient, anomaly_model_id);
+      } else if (userAnalyses.length >= MIN_ANOMALY_POPULATION) {
+        detector = new IsolationForest(FEATURE_NAMES, {
+          nTrees: n_trees,
+          sampleSize: sample_size,
+          contamination,
+          seed
+        }).fit(userAnalyses.map(scaledFeatures));
+
+        if (save_anomaly_model) {
+          const { data: saved, error: saveError } = await supabaseClient
+            .from('anomaly_models')
+            .insert({
+              session_id: session_id ?? null,
+              model_type: 'isolation_forest',
+              feature_names: FEATURE_NAMES,
+              parameters: detector.options,
+              training_size: userAnalyses.length,
+              model: detector.toJSON()
+            })
+            .select('id')
+            .single();
+
+          if (saveError) {
+            throw new Error(`Failed to save anomaly model: ${saveError.message}`);
+          }
+
+          anomalyModelId = saved.id;
+          console.log(`Saved isolation forest baseline ${saved.id}`);
+        }
+      } else {
+        console.log(`Only ${userAnalyses.length} users, skipping anomaly detection`);
+      }
+    }
+
+    // Explanations place each account's features within this population
+    const population = new PopulationPercentiles(FEATURE_NAMES, userAnalyses.map(extractFeatures));
+    const analysisResults = userAnalyses.map(user => analyzeBotProbability(user, detector, classifier, population));
+
+    // Scoring is one batch; a session cancelled meanwhile keeps its earlier verdicts
+    if (session_id && await isSessionCancelled(supabaseClient, session_id)) {
+      console.log(`Session ${session_id} was cancelled, discarding ${analysisResults.length} scores`);
+      await progress.finish('cancelled');
+      return new Response(JSON.stringify({
+        success: true,
+        cancelled: true,
+        users_analyzed: 0,
+        bots_detected: 0,
+        message: 'Bot detection cancelled'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    // Store results
+    await assertLeaseHeld(supabaseClient, lease);
+
+    // Store results; each run adds to the account's score history instead of
+    // overwriting it, and re-running the same scorer in a session replaces its rows
+    const analysisTimestamp = new Date().toISOString();
     const resultInserts = analysisResults.map(result => ({
+      session_id: session_id ?? null,
       username: result.username,
+      model_version: scorerVersion(result.detection_method, classifier, detector, anomalyModelId),
       bot_probability: result.bot_probability,
       confidence_score: result.confidence_score,
       detection_method: result.detection_method,
       features_analyzed: result.features_analyzed,
-      risk_factors: result.risk_factors
+      score_explanation: result.score_explanation,
+      risk_factors: result.risk_factors,
+      analysis_timestamp: analysisTimestamp
     }));
 
-    await supabaseClient
+    const { error: storeError } = await supabaseClient
       .from('bot_detection_results')
-      .upsert(resultInserts, { onConflict: 'username' });
+      .upsert(resultInserts, { onConflict: 'session_id,username,detection_method,model_version' });
+
+    if (storeError) {
+      throw new Error(`Failed to store detection results: ${storeError.message}`);
+    }
+
+    let unscoredAccounts: string[] = [];
+    if (session_id && sessionUsernames) {
+      const { removed, unscored } = await reconcileSessionResults(supabaseClient, session_id, sessionUsernames);
+      if (removed > 0) {
+        console.warn(`Removed ${removed} results for accounts session ${session_id} did not extract`);
+      }
+      if (unscored.length > 0) {
+        console.warn(`${unscored.length} accounts extracted by session ${session_id} have no result`);
+      }
+      unscoredAccounts = unscored;
+    }
 
     const botsDetected = analysisResults.filter(r => r.bot_probability > 0.5).length;
 
-    // Update session
+    // Update session; analysis-worker marks it completed once every stage has run
     if (session_id) {
       await supabaseClient
         .from('analysis_sessions')
-        .update({ 
-          status: 'completed',
-          bots_detected: botsDetected,
-          completed_at: new Date().toISOString()
-        })
+        .update({ bots_detected: botsDetected })
         .eq('id', session_id);
     }
 
-    console.log(`Analysis completed. Detected ${botsDetected} potential bots out of ${users.length} users`);
+    console.log(`Analysis completed. Detected ${botsDetected} potential bots out of ${userAnalyses.length} users`);
+    await progress.finish('completed', { message: `${botsDetected} potential bots` });
 
     return new Response(JSON.stringify({ 
       success: true,
-      users_analyzed: users.length,
+      users_analyzed: userAnalyses.length,
       bots_detected: botsDetected,
+      anomaly_model_id: anomalyModelId,
+      unscored_accounts: unscoredAccounts,
       results: analysisResults,
       message: 'Bot detection analysis completed successfully'
     }), {
@@ -290,8 +264,11 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Error in bot-detection function:', error);
+    // A superseded run leaves progress to the worker that reclaimed the job
+    const superseded = error instanceof LeaseLostError;
+    if (!superseded) await activeProgress?.finish('failed', { message: error.message });
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: superseded ? 409 : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
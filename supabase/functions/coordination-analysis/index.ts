@@ -0,0 +1,262 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { TextDocument, findDuplicateClusters } from '../_shared/text-similarity.ts'
+import {
+  CoordinationComment,
+  CoordinationPost,
+  buildCoordinationGraph,
+  detectCoordinatedClusters
+} from '../_shared/coordination.ts'
+import { LeaseLostError, assertLeaseHeld, isSessionCancelled, loadSessionUsernames } from '../_shared/jobs.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+import { ProgressReporter } from '../_shared/progress.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// PostgREST puts `in` filters in the URL, so long username lists go in chunks
+const USERNAME_CHUNK_SIZE = 200;
+
+async function loadActivity(supabaseClient: ReturnType<typeof createClient>, usernames: string[]) {
+  const posts: CoordinationPost[] = [];
+  const comments: CoordinationComment[] = [];
+  const documents: TextDocument[] = [];
+
+  for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+    const chunk = usernames.slice(i, i + USERNAME_CHUNK_SIZE);
+
+    const postRows = await fetchAllRows((from, to) => supabaseClient
+      .from('reddit_posts')
+      .select('id, reddit_id, author_username, title, content, url, domain, is_self')
+      .in('author_username', chunk)
+      .order('id')
+      .range(from, to), 'posts');
+
+    const commentRows = await fetchAllRows((from, to) => supabaseClient
+      .from('reddit_comments')
+      .select('id, reddit_id, author_username, post_id, body, created_utc')
+      .in('author_username', chunk)
+      .order('id')
+      .range(from, to), 'comments');
+
+    for (const post of postRows) {
+      posts.push({
+        reddit_id: post.reddit_id,
+        author: post.author_username,
+        url: post.url,
+        domain: post.domain,
+        is_self: post.is_self ?? false
+      });
+      documents.push({ id: `t3_${post.reddit_id}`, author: post.author_username, text: `${post.title ?? ''}\n${post.content ?? ''}` });
+    }
+
+    for (const comment of commentRows) {
+      if (comment.post_id) {
+        comments.push({
+          reddit_id: comment.reddit_id,
+          author: comment.author_username,
+          post_id: comment.post_id,
+          created_utc: comment.created_utc
+        });
+      }
+      documents.push({ id: `t1_${comment.reddit_id}`, author: comment.author_username, text: comment.body ?? '' });
+    }
+  }
+
+  return { posts, comments, documents };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Declared outside the try so a failure can be reported against it
+  let activeProgress: ProgressReporter | null = null;
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const {
+      action = 'analyze',
+      session_id,
+      usernames,
+      cluster_id,
+      co_comment_window_seconds,
+      min_edge_weight,
+      min_cluster_size,
+      min_density,
+      lease
+    } = await req.json();
+
+    if (action === 'analyze') {
+      const progress = new ProgressReporter(supabaseClient, session_id, 'coordinate');
+      activeProgress = progress;
+      await progress.start({ message: 'Loading account activity' });
+
+      // A session's graph covers the accounts it extracted; without one, every account
+      let population: string[] = usernames ?? [];
+      if (population.length === 0 && session_id) {
+        population = await loadSessionUsernames(supabaseClient, session_id);
+      } else if (population.length === 0) {
+        const rows = await fetchAllRows((from, to) => supabaseClient
+          .from('reddit_accounts')
+          .select('username')
+          .order('username')
+          .range(from, to), 'users');
+        population = rows.map(row => row.username);
+      }
+
+      console.log(`Building coordination graph for ${population.length} accounts`);
+
+      await progress.update({ items_total: population.length, message: 'Building account graph' });
+      const { posts, comments, documents } = await loadActivity(supabaseClient, population);
+      const options = {
+        coCommentWindowSeconds: co_comment_window_seconds,
+        minEdgeWeight: min_edge_weight,
+        minClusterSize: min_cluster_size,
+        minDensity: min_density
+      };
+      // Drop unset options so the module defaults apply
+      const definedOptions = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+
+      const edges = buildCoordinationGraph(posts, comments, findDuplicateClusters(documents), definedOptions);
+      const clusters = detectCoordinatedClusters(edges, definedOptions);
+
+      if (session_id && await isSessionCancelled(supabaseClient, session_id)) {
+        console.log(`Session ${session_id} was cancelled, not saving ${clusters.length} clusters`);
+        await progress.finish('cancelled');
+        return new Response(JSON.stringify({
+          success: true,
+          cancelled: true,
+          clusters: [],
+          message: 'Coordination analysis cancelled'
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      await assertLeaseHeld(supabaseClient, lease);
+
+      // Re-running a session replaces its previous clusters
+      if (session_id) {
+        const { error: deleteError } = await supabaseClient
+          .from('coordination_clusters')
+          .delete()
+          .eq('session_id', session_id);
+
+        if (deleteError) {
+          throw new Error(`Failed to clear previous clusters: ${deleteError.message}`);
+        }
+      }
+
+      const savedClusters = [];
+      for (const cluster of clusters) {
+        const { data: saved, error: clusterError } = await supabaseClient
+          .from('coordination_clusters')
+          .insert({
+            session_id: session_id ?? null,
+            member_count: cluster.members.length,
+            density: cluster.density,
+            total_weight: cluster.total_weight,
+            evidence_counts: cluster.evidence_counts,
+            evidence: cluster.evidence
+          })
+          .select()
+          .single();
+
+        if (clusterError) {
+          throw new Error(`Failed to save coordination cluster: ${clusterError.message}`);
+        }
+
+        const { error: memberError } = await supabaseClient
+          .from('coordination_cluster_members')
+          .insert(cluster.members.map(username => ({
+            cluster_id: saved.id,
+            username,
+            edge_weight: cluster.member_weights[username] ?? 0
+          })));
+
+        if (memberError) {
+          throw new Error(`Failed to save cluster members: ${memberError.message}`);
+        }
+
+        savedClusters.push({ ...saved, members: cluster.members });
+      }
+
+      console.log(`Coordination analysis found ${clusters.length} clusters from ${edges.length} account links`);
+      await progress.finish('completed', {
+        items_done: population.length,
+        message: `${clusters.length} clusters from ${edges.length} account links`
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        accounts_analyzed: population.length,
+        edges_found: edges.length,
+        clusters: savedClusters,
+        message: 'Coordination analysis completed successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'list') {
+      let query = supabaseClient
+        .from('coordination_clusters')
+        .select('*, coordination_cluster_members(username, edge_weight)')
+        .order('total_weight', { ascending: false });
+
+      if (session_id) {
+        query = query.eq('session_id', session_id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to list coordination clusters: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        clusters: data || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'get') {
+      const { data, error } = await supabaseClient
+        .from('coordination_clusters')
+        .select('*, coordination_cluster_members(username, edge_weight)')
+        .eq('id', cluster_id)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to get coordination cluster: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        cluster: data
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+  } catch (error) {
+    console.error('Error in coordination-analysis function:', error);
+    // A superseded run leaves progress to the worker that reclaimed the job
+    const superseded = error instanceof LeaseLostError;
+    if (!superseded) await activeProgress?.finish('failed', { message: error.message });
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: superseded ? 409 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
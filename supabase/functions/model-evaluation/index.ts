@@ -0,0 +1,158 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { IsolationForest } from '../_shared/isolation-forest.ts'
+import { FEATURE_NAMES, loadUserAnalyses, scaledFeatures } from '../_shared/features.ts'
+import { DEFAULT_HOLDOUT_FRACTION, isHoldout, loadDecisiveLabels } from '../_shared/labels.ts'
+import { metricsAtThreshold, prAuc, rocAuc } from '../_shared/metrics.ts'
+import {
+  DETECTION_METHODS,
+  MIN_ANOMALY_POPULATION,
+  analyzeBotProbability,
+  loadAnomalyModel,
+  loadClassifier
+} from '../_shared/scoring.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const {
+      action = 'evaluate',
+      method = 'hybrid',
+      classifier_model_id,
+      anomaly_model_id,
+      thresholds = [0.3, 0.5, 0.7],
+      threshold = 0.5,
+      holdout_fraction
+    } = await req.json();
+
+    if (action === 'evaluate') {
+      if (!DETECTION_METHODS.includes(method)) {
+        throw new Error(`Unknown detection method: ${method}. Expected one of ${DETECTION_METHODS.join(', ')}`);
+      }
+
+      const classifier = method === 'supervised'
+        ? await loadClassifier(supabaseClient, classifier_model_id)
+        : null;
+
+      // A supervised model must be evaluated on the same holdout it was kept away from
+      let holdoutFraction = holdout_fraction ?? DEFAULT_HOLDOUT_FRACTION;
+      if (classifier) {
+        const { data: modelRow } = await supabaseClient
+          .from('classifier_models')
+          .select('parameters')
+          .eq('id', classifier.id)
+          .single();
+        holdoutFraction = (modelRow?.parameters as { holdout_fraction?: number } | null)?.holdout_fraction ?? holdoutFraction;
+      }
+
+      const labels = await loadDecisiveLabels(supabaseClient);
+      const holdoutUsernames = [...labels.keys()].filter(username => isHoldout(username, holdoutFraction));
+      const userAnalyses = await loadUserAnalyses(supabaseClient, holdoutUsernames);
+
+      if (userAnalyses.length === 0) {
+        throw new Error('No labelled holdout accounts with extracted data to evaluate against');
+      }
+
+      console.log(`Evaluating ${method} on ${userAnalyses.length} holdout accounts`);
+
+      // Without a stored baseline the forest is fitted on the holdout population itself
+      let detector: IsolationForest | null = null;
+      if (method === 'hybrid') {
+        if (anomaly_model_id) {
+          detector = await loadAnomalyModel(supabaseClient, anomaly_model_id);
+        } else if (userAnalyses.length >= MIN_ANOMALY_POPULATION) {
+          detector = new IsolationForest(FEATURE_NAMES).fit(userAnalyses.map(scaledFeatures));
+        }
+      }
+
+      const results = userAnalyses.map(user => analyzeBotProbability(user, detector, classifier));
+      const scores = results.map(result => result.bot_probability);
+      const truth = results.map(result => labels.get(result.username) === 'bot' ? 1 : 0);
+
+      const allThresholds = [...new Set([...thresholds, threshold])].sort((a, b) => a - b);
+      const thresholdMetrics = allThresholds.map(t => metricsAtThreshold(scores, truth, t));
+      const primary = metricsAtThreshold(scores, truth, threshold);
+
+      const { data, error } = await supabaseClient
+        .from('evaluation_runs')
+        .insert({
+          detection_method: results[0].detection_method,
+          requested_method: method,
+          classifier_model_id: classifier?.id ?? null,
+          anomaly_model_id: anomaly_model_id ?? null,
+          holdout_fraction: holdoutFraction,
+          holdout_size: results.length,
+          positives: truth.filter(label => label === 1).length,
+          threshold,
+          precision: primary.precision,
+          recall: primary.recall,
+          f1_score: primary.f1_score,
+          accuracy: primary.accuracy,
+          roc_auc: rocAuc(scores, truth),
+          pr_auc: prAuc(scores, truth),
+          confusion_matrix: {
+            true_positives: primary.true_positives,
+            false_positives: primary.false_positives,
+            true_negatives: primary.true_negatives,
+            false_negatives: primary.false_negatives
+          },
+          threshold_metrics: thresholdMetrics
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save evaluation run: ${error.message}`);
+      }
+
+      console.log(`Evaluation ${data.id}: precision ${primary.precision.toFixed(3)}, recall ${primary.recall.toFixed(3)}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        evaluation: data,
+        message: 'Evaluation completed successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'list') {
+      const { data, error } = await supabaseClient
+        .from('evaluation_runs')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to list evaluation runs: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        evaluations: data || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+  } catch (error) {
+    console.error('Error in model-evaluation function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,140 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { LogisticRegression } from '../_shared/logistic-regression.ts'
+import { FEATURE_NAMES, loadUserAnalyses, scaledFeatures } from '../_shared/features.ts'
+import { DEFAULT_HOLDOUT_FRACTION, isHoldout, loadDecisiveLabels } from '../_shared/labels.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Fewer labels than this per class cannot produce a meaningful decision boundary
+const MIN_LABELS_PER_CLASS = 5;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const {
+      action,
+      name = 'default',
+      learning_rate = 0.1,
+      epochs = 500,
+      l2 = 0.01,
+      holdout_fraction = DEFAULT_HOLDOUT_FRACTION
+    } = await req.json();
+
+    if (action === 'train') {
+      // Holdout accounts are reserved for model-evaluation and never trained on
+      const labels = await loadDecisiveLabels(supabaseClient);
+      const trainingUsernames = [...labels.keys()].filter(username => !isHoldout(username, holdout_fraction));
+
+      const userAnalyses = await loadUserAnalyses(supabaseClient, trainingUsernames);
+      const trainingSet = userAnalyses.map(user => ({
+        features: scaledFeatures(user),
+        label: labels.get(user.username) === 'bot' ? 1 : 0
+      }));
+
+      const botCount = trainingSet.filter(row => row.label === 1).length;
+      const humanCount = trainingSet.length - botCount;
+
+      if (botCount < MIN_LABELS_PER_CLASS || humanCount < MIN_LABELS_PER_CLASS) {
+        throw new Error(`Need at least ${MIN_LABELS_PER_CLASS} labelled bots and humans with extracted data, found ${botCount} bots and ${humanCount} humans`);
+      }
+
+      console.log(`Training classifier "${name}" on ${trainingSet.length} labelled accounts`);
+
+      const model = new LogisticRegression(FEATURE_NAMES, {
+        learningRate: learning_rate,
+        epochs,
+        l2
+      }).fit(trainingSet.map(row => row.features), trainingSet.map(row => row.label));
+
+      // Fit quality on the training data itself; held-out numbers come from evaluations
+      let correct = 0;
+      let logLoss = 0;
+      for (const row of trainingSet) {
+        const probability = Math.min(Math.max(model.predict(row.features), 1e-9), 1 - 1e-9);
+        if ((probability >= 0.5 ? 1 : 0) === row.label) correct++;
+        logLoss -= row.label * Math.log(probability) + (1 - row.label) * Math.log(1 - probability);
+      }
+
+      const { data: previous } = await supabaseClient
+        .from('classifier_models')
+        .select('version')
+        .eq('name', name)
+        .order('version', { ascending: false })
+        .limit(1);
+
+      const version = (previous?.[0]?.version ?? 0) + 1;
+
+      const { data, error } = await supabaseClient
+        .from('classifier_models')
+        .insert({
+          name,
+          version,
+          model_type: 'logistic_regression',
+          feature_names: FEATURE_NAMES,
+          parameters: { ...model.options, holdout_fraction },
+          training_size: trainingSet.length,
+          training_metrics: {
+            bots: botCount,
+            humans: humanCount,
+            training_accuracy: correct / trainingSet.length,
+            training_log_loss: logLoss / trainingSet.length
+          },
+          model: model.toJSON()
+        })
+        .select('id, name, version, training_size, training_metrics, created_at')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save classifier model: ${error.message}`);
+      }
+
+      console.log(`Saved classifier "${name}" version ${version}: ${data.id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        model: data,
+        message: 'Classifier trained successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'list') {
+      const { data, error } = await supabaseClient
+        .from('classifier_models')
+        .select('id, name, version, model_type, training_size, training_metrics, created_at')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to list classifier models: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        models: data || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+  } catch (error) {
+    console.error('Error in model-training function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,425 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { nextCronRun, parseCron } from '../_shared/cron.ts'
+import { PIPELINE_STAGES, TERMINAL_SESSION_STATUSES, enqueueJob, kickWorker } from '../_shared/jobs.ts'
+import { LISTING_SORTS, LISTING_TIME_WINDOWS } from '../_shared/reddit-client.ts'
+import { DETECTION_METHODS } from '../_shared/scoring.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface Monitor {
+  id: string;
+  name: string;
+  subreddit: string;
+  sort: string;
+  t: string;
+  max_posts: number;
+  crawl_user_history: boolean;
+  cron_expression: string;
+  detection_method: string;
+  next_run_at: string;
+}
+
+// Enough history for the monitors page without paging
+const RUN_HISTORY_LIMIT = 50;
+
+// Fields a client may set on create and update
+const MONITOR_FIELDS = [
+  'name',
+  'subreddit',
+  'sort',
+  't',
+  'max_posts',
+  'crawl_user_history',
+  'cron_expression',
+  'detection_method'
+];
+
+function pickMonitorFields(body: Record<string, unknown>) {
+  const fields = Object.fromEntries(
+    MONITOR_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+  );
+
+  if (fields.cron_expression !== undefined) {
+    parseCron(String(fields.cron_expression));
+  }
+  if (fields.detection_method !== undefined && !DETECTION_METHODS.includes(String(fields.detection_method))) {
+    throw new Error(`Unknown detection method: ${fields.detection_method}. Expected one of ${DETECTION_METHODS.join(', ')}`);
+  }
+
+  // Checked here rather than surfacing as a failed extraction when the monitor fires
+  if (fields.sort !== undefined && !LISTING_SORTS.includes(String(fields.sort))) {
+    throw new Error(`Unsupported listing sort: ${fields.sort}. Expected one of ${LISTING_SORTS.join(', ')}`);
+  }
+  if (fields.t !== undefined && !LISTING_TIME_WINDOWS.includes(String(fields.t))) {
+    throw new Error(`Unsupported time window: ${fields.t}. Expected one of ${LISTING_TIME_WINDOWS.join(', ')}`);
+  }
+  if (fields.max_posts !== undefined && !(Number.isInteger(fields.max_posts) && Number(fields.max_posts) > 0)) {
+    throw new Error(`max_posts must be a positive integer, got ${fields.max_posts}`);
+  }
+
+  return fields;
+}
+
+// The session started by the monitor's most recent run, if it is still going
+async function findRunningSession(supabaseClient: SupabaseClient, monitorId: string) {
+  const { data, error } = await supabaseClient
+    .from('monitor_runs')
+    .select('session_id, analysis_sessions(id, status)')
+    .eq('monitor_id', monitorId)
+    .eq('status', 'started')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch previous run: ${error.message}`);
+  }
+
+  const session = data?.[0]?.analysis_sessions as { id: string; status: string } | null | undefined;
+  return session && !TERMINAL_SESSION_STATUSES.includes(session.status) ? session : null;
+}
+
+async function recordRun(
+  supabaseClient: SupabaseClient,
+  monitorId: string,
+  scheduledFor: string,
+  status: 'started' | 'skipped' | 'failed',
+  sessionId: string | null,
+  message: string
+) {
+  const { data, error } = await supabaseClient
+    .from('monitor_runs')
+    .insert({
+      monitor_id: monitorId,
+      session_id: sessionId,
+      status,
+      scheduled_for: scheduledFor,
+      message
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record monitor run: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Create a queued session for the monitor; the tick loop then queues its pipeline
+async function createMonitorSession(supabaseClient: SupabaseClient, monitor: Monitor, scheduledFor: string) {
+  const { data: session, error } = await supabaseClient
+    .from('analysis_sessions')
+    .insert({
+      session_name: `${monitor.name} (${scheduledFor})`,
+      subreddit: monitor.subreddit,
+      status: 'queued',
+      analysis_parameters: {
+        subreddit: monitor.subreddit,
+        max_posts: monitor.max_posts,
+        sort: monitor.sort,
+        t: monitor.t,
+        crawl_user_history: monitor.crawl_user_history,
+        detection_method: monitor.detection_method,
+        monitor_id: monitor.id,
+        created_at: new Date().toISOString()
+      }
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create session: ${error.message}`);
+  }
+
+  return session;
+}
+
+// A session whose first job never got queued would stay 'queued' forever and
+// make findRunningSession skip every later run of the monitor
+async function failMonitorSession(supabaseClient: SupabaseClient, sessionId: string, message: string) {
+  const { error } = await supabaseClient
+    .from('analysis_sessions')
+    .update({
+      status: 'failed',
+      error_message: message,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error(`Failed to mark session ${sessionId} as failed:`, error);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const body = await req.json();
+    const { action, monitor_id, now } = body;
+
+    if (action === 'create') {
+      const fields = pickMonitorFields(body);
+      if (!fields.subreddit || !fields.cron_expression) {
+        throw new Error('subreddit and cron_expression are required');
+      }
+
+      const { data, error } = await supabaseClient
+        .from('monitors')
+        .insert({
+          ...fields,
+          name: fields.name || `r/${fields.subreddit} monitor`,
+          next_run_at: nextCronRun(String(fields.cron_expression), new Date()).toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create monitor: ${error.message}`);
+      }
+
+      console.log(`Created monitor ${data.id} for r/${data.subreddit} (${data.cron_expression})`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        monitor: data,
+        message: 'Monitor created successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'list') {
+      const { data, error } = await supabaseClient
+        .from('monitors')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to list monitors: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        monitors: data || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'get') {
+      const { data: monitor, error } = await supabaseClient
+        .from('monitors')
+        .select('*')
+        .eq('id', monitor_id)
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to get monitor: ${error.message}`);
+      }
+
+      // Run history with the outcome of each session it started
+      const { data: runs, error: runsError } = await supabaseClient
+        .from('monitor_runs')
+        .select('*, analysis_sessions(id, status, total_accounts_analyzed, bots_detected, completed_at, error_message)')
+        .eq('monitor_id', monitor_id)
+        .order('created_at', { ascending: false })
+        .limit(RUN_HISTORY_LIMIT);
+
+      if (runsError) {
+        throw new Error(`Failed to get monitor runs: ${runsError.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        monitor,
+        runs: runs || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'update') {
+      const fields = pickMonitorFields(body);
+      const update: Record<string, unknown> = { ...fields };
+      if (fields.cron_expression) {
+        update.next_run_at = nextCronRun(String(fields.cron_expression), new Date()).toISOString();
+      }
+
+      const { data, error } = await supabaseClient
+        .from('monitors')
+        .update(update)
+        .eq('id', monitor_id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update monitor: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        monitor: data,
+        message: 'Monitor updated successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'pause' || action === 'resume') {
+      const { data: monitor, error: monitorError } = await supabaseClient
+        .from('monitors')
+        .select('cron_expression')
+        .eq('id', monitor_id)
+        .single();
+
+      if (monitorError) {
+        throw new Error(`Failed to get monitor: ${monitorError.message}`);
+      }
+
+      // Resuming schedules from now rather than catching up on missed runs
+      const { data, error } = await supabaseClient
+        .from('monitors')
+        .update(action === 'pause'
+          ? { is_paused: true, next_run_at: null }
+          : { is_paused: false, next_run_at: nextCronRun(monitor.cron_expression, new Date()).toISOString() })
+        .eq('id', monitor_id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to ${action} monitor: ${error.message}`);
+      }
+
+      console.log(`Monitor ${monitor_id} ${action === 'pause' ? 'paused' : 'resumed'}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        monitor: data,
+        message: `Monitor ${action === 'pause' ? 'paused' : 'resumed'}`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'delete') {
+      const { error } = await supabaseClient
+        .from('monitors')
+        .delete()
+        .eq('id', monitor_id);
+
+      if (error) {
+        throw new Error(`Failed to delete monitor: ${error.message}`);
+      }
+
+      console.log(`Deleted monitor: ${monitor_id}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Monitor deleted successfully'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'tick') {
+      // Start every due monitor. pg_cron sends this every minute; `now` lets a
+      // local run pretend to be at any time.
+      const tickTime = now ? new Date(now) : new Date();
+      if (Number.isNaN(tickTime.getTime())) {
+        throw new Error(`Invalid tick time: ${now}`);
+      }
+
+      const { data: dueMonitors, error } = await supabaseClient
+        .from('monitors')
+        .select('*')
+        .eq('is_paused', false)
+        .lte('next_run_at', tickTime.toISOString())
+        .order('next_run_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch due monitors: ${error.message}`);
+      }
+
+      const runs = [];
+      for (const monitor of (dueMonitors || []) as Monitor[]) {
+        const scheduledFor = monitor.next_run_at;
+
+        // Advance the schedule only if no other tick got here first
+        const { data: claimed, error: claimError } = await supabaseClient
+          .from('monitors')
+          .update({
+            next_run_at: nextCronRun(monitor.cron_expression, tickTime).toISOString(),
+            last_run_at: tickTime.toISOString()
+          })
+          .eq('id', monitor.id)
+          .eq('next_run_at', scheduledFor)
+          .select('id');
+
+        if (claimError) {
+          throw new Error(`Failed to claim monitor: ${claimError.message}`);
+        }
+        if (!claimed || claimed.length === 0) continue;
+
+        let sessionId: string | null = null;
+        try {
+          const running = await findRunningSession(supabaseClient, monitor.id);
+          if (running) {
+            console.log(`Skipping monitor ${monitor.id}: session ${running.id} is still ${running.status}`);
+            runs.push(await recordRun(
+              supabaseClient, monitor.id, scheduledFor, 'skipped', null,
+              `Previous run (session ${running.id}) is still ${running.status}`
+            ));
+            continue;
+          }
+
+          const session = await createMonitorSession(supabaseClient, monitor, scheduledFor);
+          sessionId = session.id;
+          await enqueueJob(supabaseClient, session.id, PIPELINE_STAGES[0]);
+          console.log(`Monitor ${monitor.id} started session ${session.id}`);
+          runs.push(await recordRun(supabaseClient, monitor.id, scheduledFor, 'started', session.id, 'Analysis queued'));
+        } catch (runError) {
+          // One broken monitor must not hold up the others
+          console.error(`Monitor ${monitor.id} failed to start:`, runError);
+          if (sessionId) {
+            await failMonitorSession(supabaseClient, sessionId, runError.message);
+          }
+          runs.push(await recordRun(supabaseClient, monitor.id, scheduledFor, 'failed', sessionId, runError.message));
+        }
+      }
+
+      const started = runs.filter(run => run.status === 'started').length;
+      if (started > 0) {
+        kickWorker();
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        tick_time: tickTime.toISOString(),
+        started,
+        skipped: runs.filter(run => run.status === 'skipped').length,
+        failed: runs.filter(run => run.status === 'failed').length,
+        runs,
+        message: `Processed ${runs.length} due monitors`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+  } catch (error) {
+    console.error('Error in monitors function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,16 +1,13 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { LISTING_SORTS, LISTING_TIME_WINDOWS, RedditClient } from '../_shared/reddit-client.ts'
+import { LeaseLostError, assertLeaseHeld, isSessionCancelled } from '../_shared/jobs.ts'
+import { ProgressReporter } from '../_shared/progress.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface RedditTokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-}
-
 interface RedditUser {
   name: string;
   created_utc: number;
@@ -22,6 +19,7 @@ interface RedditUser {
 }
 
 interface RedditPost {
+  kind?: 't3';
   data: {
     id: string;
     author: string;
@@ -38,142 +36,551 @@ interface RedditPost {
   }
 }
 
+interface RedditCommentData {
+  id: string;
+  name: string;
+  author: string;
+  body: string;
+  score: number;
+  created_utc: number;
+  is_submitter: boolean;
+  parent_id: string;
+  link_id: string;
+  subreddit: string;
+  depth: number;
+  replies: RedditListing<RedditCommentThing> | '';
+}
+
+interface RedditMoreData {
+  id: string;
+  name: string;
+  parent_id: string;
+  depth: number;
+  count: number;
+  children: string[];
+}
+
+type RedditCommentThing =
+  | { kind: 't1'; data: RedditCommentData }
+  | { kind: 'more'; data: RedditMoreData };
+
+interface RedditListing<T> {
+  kind: 'Listing';
+  data: {
+    children: T[];
+    after: string | null;
+  }
+}
+
+interface CommentInsert {
+  reddit_id: string;
+  post_id: string;
+  author_username: string;
+  body: string;
+  score: number;
+  created_utc: number;
+  is_submitter: boolean;
+  parent_id: string;
+  subreddit: string;
+}
+
+interface PostInsert {
+  reddit_id: string;
+  author_username: string;
+  title: string;
+  content: string;
+  subreddit: string;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  created_utc: number;
+  is_self: boolean;
+  domain: string;
+  url: string;
+}
+
+type SubredditActivity = Record<string, { posts: number; comments: number }>;
+
+// What the comment pass needs to know about each listed post
+interface ListedPost {
+  id: string;
+  subreddit: string;
+  num_comments: number;
+}
+
+// Progress saved on the session after every page, post and user batch
+interface ExtractionCheckpoint {
+  listing_after: string | null;
+  listing_complete: boolean;
+  pages_fetched: number;
+  posts: ListedPost[];
+  comment_post_ids: string[];
+  comments_extracted: number;
+  users: string[];
+  fetched_users: string[];
+}
+
+const EMPTY_CHECKPOINT: ExtractionCheckpoint = {
+  listing_after: null,
+  listing_complete: false,
+  pages_fetched: 0,
+  posts: [],
+  comment_post_ids: [],
+  comments_extracted: 0,
+  users: [],
+  fetched_users: [],
+};
+
+interface CommentBudget {
+  maxDepth: number;
+  remaining: number;
+}
+
+// Only these listings honour the `t` time window parameter
+const TIME_WINDOWED_SORTS = ['top', 'controversial'];
+
+// Reddit caps every listing page at 100 items
+const LISTING_PAGE_SIZE = 100;
+
+// Reddit accepts at most 100 comment ids per /api/morechildren call
+const MORE_CHILDREN_BATCH_SIZE = 100;
+
+// Users fetched between checkpoints and cancellation checks
+const USER_BATCH_SIZE = 25;
+
+function toPostInsert(post: RedditPost['data']): PostInsert {
+  return {
+    reddit_id: post.id,
+    author_username: post.author,
+    title: post.title,
+    content: post.selftext,
+    subreddit: post.subreddit,
+    score: post.score,
+    upvote_ratio: post.upvote_ratio,
+    num_comments: post.num_comments,
+    created_utc: post.created_utc,
+    is_self: post.is_self,
+    domain: post.domain,
+    url: post.url
+  };
+}
+
+function toCommentInsert(comment: RedditCommentData): CommentInsert {
+  return {
+    reddit_id: comment.id,
+    post_id: comment.link_id.replace(/^t3_/, ''),
+    author_username: comment.author,
+    body: comment.body,
+    score: comment.score,
+    created_utc: comment.created_utc,
+    is_submitter: comment.is_submitter || false,
+    parent_id: comment.parent_id,
+    subreddit: comment.subreddit
+  };
+}
+
+// Walk a comment tree depth-first, collecting comments and the "more" stubs
+// that still need to be expanded. Stops once the budget is spent.
+function walkCommentTree(
+  things: RedditCommentThing[],
+  budget: CommentBudget,
+  comments: CommentInsert[],
+  pendingMore: RedditMoreData[],
+) {
+  for (const thing of things) {
+    if (budget.remaining <= 0) return;
+
+    if (thing.kind === 'more') {
+      // "continue this thread" stubs have no children and sit past the depth limit
+      if (thing.data.children.length > 0 && thing.data.depth <= budget.maxDepth) {
+        pendingMore.push(thing.data);
+      }
+      continue;
+    }
+
+    if (thing.kind !== 't1' || thing.data.depth > budget.maxDepth) continue;
+
+    if (thing.data.author && thing.data.author !== '[deleted]') {
+      comments.push(toCommentInsert(thing.data));
+      budget.remaining--;
+    }
+
+    if (thing.data.replies && thing.data.depth < budget.maxDepth) {
+      walkCommentTree(thing.data.replies.data.children, budget, comments, pendingMore);
+    }
+  }
+}
+
+async function fetchPostComments(
+  reddit: RedditClient,
+  post: Pick<RedditPost['data'], 'id' | 'subreddit'>,
+  budget: CommentBudget,
+): Promise<CommentInsert[]> {
+  const comments: CommentInsert[] = [];
+  const pendingMore: RedditMoreData[] = [];
+
+  // The comments endpoint returns [postListing, commentListing]
+  const [, commentListing] = await reddit.get<[unknown, RedditListing<RedditCommentThing>]>(
+    `/r/${post.subreddit}/comments/${post.id}`,
+    { depth: budget.maxDepth + 1, limit: budget.remaining }
+  );
+  walkCommentTree(commentListing.data.children, budget, comments, pendingMore);
+
+  // Expand "more" stubs breadth-first until the tree or the budget runs out
+  while (pendingMore.length > 0 && budget.remaining > 0) {
+    const batch: string[] = [];
+    while (pendingMore.length > 0 && batch.length < MORE_CHILDREN_BATCH_SIZE) {
+      const stub = pendingMore[0];
+      batch.push(...stub.children.splice(0, MORE_CHILDREN_BATCH_SIZE - batch.length));
+      if (stub.children.length === 0) pendingMore.shift();
+    }
+
+    let moreData;
+    try {
+      moreData = await reddit.get<{ json?: { data?: { things?: RedditCommentThing[] } } }>(
+        '/api/morechildren',
+        { api_type: 'json', link_id: `t3_${post.id}`, children: batch.join(',') }
+      );
+    } catch (error) {
+      // Keep whatever part of the tree was already collected
+      console.log(`Failed to expand more comments for post ${post.id}:`, error);
+      break;
+    }
+
+    // morechildren returns a flat list; nesting is recovered through parent_id
+    walkCommentTree(moreData.json?.data?.things || [], budget, comments, pendingMore);
+  }
+
+  return comments;
+}
+
+// Page through one of a user's own listings (`submitted` or `comments`),
+// newest first, across every subreddit they are active in.
+async function fetchUserListing<T>(
+  reddit: RedditClient,
+  username: string,
+  listing: 'submitted' | 'comments',
+  maxItems: number,
+): Promise<T[]> {
+  const items: T[] = [];
+  let after: string | null = null;
+
+  do {
+    const listingData = await reddit.get<RedditListing<T>>(`/user/${username}/${listing}`, {
+      sort: 'new',
+      limit: Math.min(LISTING_PAGE_SIZE, maxItems - items.length),
+      after
+    });
+    items.push(...listingData.data.children);
+    after = listingData.data.after;
+
+    if (listingData.data.children.length === 0) break;
+  } while (after && items.length < maxItems);
+
+  return items;
+}
+
+async function fetchUserHistory(
+  supabaseClient: ReturnType<typeof createClient>,
+  reddit: RedditClient,
+  username: string,
+  maxItems: number,
+) {
+  const submitted = await fetchUserListing<RedditPost>(reddit, username, 'submitted', maxItems);
+  const commented = await fetchUserListing<{ kind: 't1'; data: RedditCommentData }>(reddit, username, 'comments', maxItems);
+
+  const postInserts = submitted.map(post => toPostInsert(post.data));
+  const commentInserts = commented.map(comment => toCommentInsert(comment.data));
+
+  if (postInserts.length > 0) {
+    await supabaseClient
+      .from('reddit_posts')
+      .upsert(postInserts, { onConflict: 'reddit_id' });
+  }
+
+  if (commentInserts.length > 0) {
+    await supabaseClient
+      .from('reddit_comments')
+      .upsert(commentInserts, { onConflict: 'reddit_id' });
+  }
+
+  return {
+    postCount: postInserts.length,
+    commentCount: commentInserts.length,
+    subredditActivity: countSubredditActivity(postInserts, commentInserts)
+  };
+}
+
+function countSubredditActivity(posts: PostInsert[], comments: CommentInsert[]): SubredditActivity {
+  const activity: SubredditActivity = {};
+
+  for (const post of posts) {
+    activity[post.subreddit] ??= { posts: 0, comments: 0 };
+    activity[post.subreddit].posts++;
+  }
+
+  for (const comment of comments) {
+    activity[comment.subreddit] ??= { posts: 0, comments: 0 };
+    activity[comment.subreddit].comments++;
+  }
+
+  return activity;
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // The pass currently running, declared outside the try so a failure can be reported against it
+  let activeProgress: ProgressReporter | null = null;
+
   try {
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
     )
 
-    const { subreddit, limit = 100, session_id } = await req.json();
+    const {
+      subreddit,
+      limit = 100,
+      max_posts = limit,
+      sort = 'hot',
+      t = 'day',
+      session_id,
+      include_comments = true,
+      comment_depth = 5,
+      max_comments = 2000,
+      max_comments_per_post = 200,
+      crawl_user_history = false,
+      user_history_limit = 100,
+      resume = false,
+      lease
+    } = await req.json();
     
-    console.log(`Starting Reddit extraction for subreddit: ${subreddit}, limit: ${limit}`);
+    console.log(`Starting Reddit extraction for subreddit: ${subreddit}, sort: ${sort}, t: ${t}, max_posts: ${max_posts}`);
 
-    // Get Reddit OAuth token using script authentication
-    const clientId = Deno.env.get('REDDIT_CLIENT_ID');
-    const clientSecret = Deno.env.get('REDDIT_CLIENT_SECRET');
-    const username = Deno.env.get('REDDIT_USERNAME');
-    const password = Deno.env.get('REDDIT_PASSWORD');
-    
-    console.log(`Reddit Client ID configured: ${clientId ? 'Yes' : 'No'}`);
-    console.log(`Reddit Client Secret configured: ${clientSecret ? 'Yes' : 'No'}`);
-    console.log(`Reddit Username configured: ${username ? 'Yes' : 'No'}`);
-    console.log(`Reddit Password configured: ${password ? 'Yes' : 'No'}`);
-    
-    if (!clientId || !clientSecret || !username || !password) {
-      throw new Error('Reddit API credentials not configured. Please ensure REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET, REDDIT_USERNAME, and REDDIT_PASSWORD are set.');
+    if (!LISTING_SORTS.includes(sort)) {
+      throw new Error(`Unsupported listing sort: ${sort}. Expected one of ${LISTING_SORTS.join(', ')}`);
     }
 
-    // Encode credentials for Basic auth
-    const auth = btoa(`${clientId}:${clientSecret}`);
-    
-    console.log('Attempting Reddit API authentication with script app...');
-    console.log('Client ID (first 10 chars):', clientId?.substring(0, 10));
-    console.log('Client Secret (first 10 chars):', clientSecret?.substring(0, 10));
-    console.log('Username:', username);
-    
-    const tokenResponse = await fetch('https://www.reddit.com/api/v1/access_token', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'User-Agent': 'Bot Detection Project created by /u/Return_Foo_Bar version: 0.1',
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `grant_type=password&username=${encodeURIComponent(username)}&password=${encodeURIComponent(password)}`
-    });
+    if (!LISTING_TIME_WINDOWS.includes(t)) {
+      throw new Error(`Unsupported time window: ${t}. Expected one of ${LISTING_TIME_WINDOWS.join(', ')}`);
+    }
 
-    if (!tokenResponse.ok) {
-      const errorText = await tokenResponse.text();
-      console.error(`Reddit token request failed. Status: ${tokenResponse.status}, Response: ${errorText}`);
-      throw new Error(`Failed to get Reddit token: ${tokenResponse.status} ${tokenResponse.statusText} - ${errorText}`);
+    // Reddit client authenticates lazily and reuses its token across requests
+    const reddit = RedditClient.fromEnv();
+
+    // Pick up where an interrupted run stopped, or start a fresh checkpoint
+    let checkpoint: ExtractionCheckpoint = { ...EMPTY_CHECKPOINT };
+    if (session_id && resume) {
+      const { data: session } = await supabaseClient
+        .from('analysis_sessions')
+        .select('extraction_checkpoint')
+        .eq('id', session_id)
+        .single();
+      checkpoint = { ...EMPTY_CHECKPOINT, ...(session?.extraction_checkpoint as Partial<ExtractionCheckpoint> | null) };
+      console.log(`Resuming extraction: ${checkpoint.posts.length} posts, ${checkpoint.fetched_users.length}/${checkpoint.users.length} users done`);
     }
 
-    const tokenData: RedditTokenResponse = await tokenResponse.json();
-    console.log('Successfully obtained Reddit OAuth token');
+    // Stored posts, comments and accounts are upserts and safe to repeat; the
+    // checkpoint is not, so a run that lost its job stops here
+    const saveCheckpoint = async () => {
+      if (!session_id) return;
+      await assertLeaseHeld(supabaseClient, lease);
+      await supabaseClient
+        .from('analysis_sessions')
+        .update({
+          extraction_checkpoint: checkpoint,
+          posts_extracted: checkpoint.posts.length,
+          pages_fetched: checkpoint.pages_fetched,
+          total_accounts_analyzed: checkpoint.fetched_users.length
+        })
+        .eq('id', session_id);
+    };
+
+    const cancelledResponse = async () => {
+      console.log(`Session ${session_id} was cancelled, stopping extraction`);
+      await activeProgress?.finish('cancelled', { rate_limit_waits: reddit.stats.rateLimitWaits });
+      return new Response(JSON.stringify({
+        success: true,
+        cancelled: true,
+        posts_extracted: checkpoint.posts.length,
+        pages_fetched: checkpoint.pages_fetched,
+        comments_extracted: checkpoint.comments_extracted,
+        users_extracted: checkpoint.fetched_users.length,
+        reddit_stats: reddit.stats,
+        message: 'Reddit data extraction cancelled'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    };
 
     // Update session status
     if (session_id) {
       await supabaseClient
         .from('analysis_sessions')
         .update({ status: 'extracting_data' })
-        .eq('id', session_id);
+        .eq('id', session_id)
+        .neq('status', 'cancelled');
     }
 
-    // Extract subreddit posts
-    const postsResponse = await fetch(`https://oauth.reddit.com/r/${subreddit}/hot?limit=${limit}`, {
-      headers: {
-        'Authorization': `Bearer ${tokenData.access_token}`,
-        'User-Agent': 'Bot Detection Project created by /u/Return_Foo_Bar version: 0.1',
+    // Extract subreddit posts, following the `after` cursor page by page
+    const listedPosts = new Map(checkpoint.posts.map(post => [post.id, post]));
+    const uniqueUsers = new Set(checkpoint.users);
+    let listingError: string | null = null;
+
+    const listingProgress = new ProgressReporter(supabaseClient, session_id, 'listing');
+    activeProgress = listingProgress;
+    await listingProgress.start({ items_done: listedPosts.size, items_total: max_posts, current_item: `r/${subreddit}/${sort}` });
+
+    while (!checkpoint.listing_complete) {
+      let postsData: RedditListing<RedditPost>;
+      try {
+        postsData = await reddit.get<RedditListing<RedditPost>>(`/r/${subreddit}/${sort}`, {
+          limit: Math.min(LISTING_PAGE_SIZE, max_posts - listedPosts.size),
+          t: TIME_WINDOWED_SORTS.includes(sort) ? t : undefined,
+          after: checkpoint.listing_after
+        });
+      } catch (error) {
+        // Nothing stored yet means nothing to recover; otherwise keep the pages we have
+        if (listedPosts.size === 0) throw error;
+        listingError = (error as Error).message;
+        await listingProgress.update({ error_count: 1, message: listingError });
+        console.error(`Stopping pagination after ${checkpoint.pages_fetched} pages:`, error);
+        break;
       }
-    });
 
-    if (!postsResponse.ok) {
-      throw new Error(`Failed to fetch posts: ${postsResponse.statusText}`);
-    }
+      const pagePosts = postsData.data.children;
 
-    const postsData = await postsResponse.json();
-    const posts = postsData.data.children as RedditPost[];
-    
-    console.log(`Extracted ${posts.length} posts from r/${subreddit}`);
+      // Store posts and extract unique users
+      const postInserts: PostInsert[] = [];
 
-    // Store posts and extract unique users
-    const uniqueUsers = new Set<string>();
-    const postInserts = [];
-    
-    for (const post of posts) {
-      if (post.data.author && post.data.author !== '[deleted]') {
-        uniqueUsers.add(post.data.author);
-        
-        postInserts.push({
-          reddit_id: post.data.id,
-          author_username: post.data.author,
-          title: post.data.title,
-          content: post.data.selftext,
+      for (const post of pagePosts) {
+        listedPosts.set(post.data.id, {
+          id: post.data.id,
           subreddit: post.data.subreddit,
-          score: post.data.score,
-          upvote_ratio: post.data.upvote_ratio,
-          num_comments: post.data.num_comments,
-          created_utc: post.data.created_utc,
-          is_self: post.data.is_self,
-          domain: post.data.domain,
-          url: post.data.url
+          num_comments: post.data.num_comments
         });
+        if (post.data.author && post.data.author !== '[deleted]') {
+          uniqueUsers.add(post.data.author);
+
+          postInserts.push(toPostInsert(post.data));
+        }
+      }
+
+      // Insert posts
+      if (postInserts.length > 0) {
+        await supabaseClient
+          .from('reddit_posts')
+          .upsert(postInserts, { onConflict: 'reddit_id' });
       }
+
+      checkpoint.listing_after = postsData.data.after;
+      checkpoint.pages_fetched++;
+      checkpoint.posts = [...listedPosts.values()];
+      checkpoint.users = [...uniqueUsers];
+      checkpoint.listing_complete = pagePosts.length === 0 || !checkpoint.listing_after || listedPosts.size >= max_posts;
+      await saveCheckpoint();
+
+      console.log(`Fetched page ${checkpoint.pages_fetched} (${pagePosts.length} posts) from r/${subreddit}/${sort}`);
+      await listingProgress.update({ items_done: listedPosts.size, rate_limit_waits: reddit.stats.rateLimitWaits });
+
+      if (session_id && await isSessionCancelled(supabaseClient, session_id)) return cancelledResponse();
     }
+    
+    console.log(`Extracted ${listedPosts.size} posts from r/${subreddit}`);
+    await listingProgress.finish('completed', { items_done: listedPosts.size, items_total: listedPosts.size });
 
-    // Insert posts
-    if (postInserts.length > 0) {
-      await supabaseClient
-        .from('reddit_posts')
-        .upsert(postInserts, { onConflict: 'reddit_id' });
+    // Extract comment trees; most suspect accounts only ever comment
+    if (include_comments) {
+      const commentsDone = new Set(checkpoint.comment_post_ids);
+      let commentsRemaining = max_comments - checkpoint.comments_extracted;
+      let commentErrors = 0;
+
+      const commentProgress = new ProgressReporter(supabaseClient, session_id, 'comments');
+      activeProgress = commentProgress;
+      await commentProgress.start({ items_done: commentsDone.size, items_total: checkpoint.posts.length });
+
+      for (const post of checkpoint.posts) {
+        if (commentsRemaining <= 0) break;
+        if (commentsDone.has(post.id)) continue;
+
+        await commentProgress.update({ current_item: post.id });
+
+        if (post.num_comments > 0) {
+          try {
+            const budget: CommentBudget = {
+              maxDepth: comment_depth,
+              remaining: Math.min(max_comments_per_post, commentsRemaining)
+            };
+            const comments = await fetchPostComments(reddit, post, budget);
+
+            if (comments.length > 0) {
+              await supabaseClient
+                .from('reddit_comments')
+                .upsert(comments, { onConflict: 'reddit_id' });
+            }
+
+            commentsRemaining -= comments.length;
+            checkpoint.comments_extracted += comments.length;
+            comments.forEach(comment => uniqueUsers.add(comment.author_username));
+          } catch (error) {
+            console.log(`Failed to fetch comments for post ${post.id}:`, error);
+            commentErrors++;
+          }
+        }
+
+        commentsDone.add(post.id);
+        await commentProgress.update({
+          items_done: commentsDone.size,
+          error_count: commentErrors,
+          rate_limit_waits: reddit.stats.rateLimitWaits,
+          message: `${checkpoint.comments_extracted} comments`
+        });
+        checkpoint.comment_post_ids = [...commentsDone];
+        checkpoint.users = [...uniqueUsers];
+        await saveCheckpoint();
+
+        if (session_id && await isSessionCancelled(supabaseClient, session_id)) return cancelledResponse();
+      }
+
+      console.log(`Extracted ${checkpoint.comments_extracted} comments from r/${subreddit}`);
+      // The comment budget can end the pass before every post is visited
+      await commentProgress.finish('completed', { items_done: checkpoint.posts.length });
     }
 
-    // Extract user data
-    const userInserts = [];
-    const userArray = Array.from(uniqueUsers);
+    // Extract user data, in batches so progress survives an interrupted run
+    let historyPostsExtracted = 0;
+    let historyCommentsExtracted = 0;
+    const fetchedUsers = new Set(checkpoint.fetched_users);
+    const pendingUsers = checkpoint.users.filter(username => !fetchedUsers.has(username));
     
-    console.log(`Extracting data for ${userArray.length} unique users`);
+    console.log(`Extracting data for ${pendingUsers.length} unique users (${fetchedUsers.size} already fetched)`);
 
-    for (const username of userArray) {
-      try {
-        const userResponse = await fetch(`https://oauth.reddit.com/user/${username}/about`, {
-          headers: {
-            'Authorization': `Bearer ${tokenData.access_token}`,
-            'User-Agent': 'Bot Detection Project created by /u/Return_Foo_Bar version: 0.1',
-          }
+    let userErrors = 0;
+    const userProgress = new ProgressReporter(supabaseClient, session_id, 'users');
+    activeProgress = userProgress;
+    await userProgress.start({ items_done: fetchedUsers.size, items_total: checkpoint.users.length });
+
+    for (let i = 0; i < pendingUsers.length; i += USER_BATCH_SIZE) {
+      const userInserts: Record<string, unknown>[] = [];
+
+      for (const username of pendingUsers.slice(i, i + USER_BATCH_SIZE)) {
+        await userProgress.update({
+          items_done: fetchedUsers.size,
+          current_item: username,
+          error_count: userErrors,
+          rate_limit_waits: reddit.stats.rateLimitWaits
         });
 
-        if (userResponse.ok) {
-          const userData = await userResponse.json();
-          const user: RedditUser = userData.data;
-          
+        try {
+          const userData = await reddit.get<{ data: RedditUser }>(`/user/${username}/about`);
+          const user = userData.data;
+
           const accountAge = Math.floor((Date.now() / 1000 - user.created_utc) / (24 * 60 * 60));
-          
-          userInserts.push({
+
+          const userInsert: Record<string, unknown> = {
             username: user.name,
             account_created_utc: user.created_utc,
             comment_karma: user.comment_karma,
@@ -182,40 +589,72 @@ Deno.serve(async (req) => {
             has_verified_email: user.has_verified_email || false,
             is_premium: user.is_gold || false,
             account_age_days: accountAge
-          });
+          };
+
+          // Optional cross-subreddit history crawl
+          if (crawl_user_history) {
+            try {
+              const history = await fetchUserHistory(supabaseClient, reddit, user.name, user_history_limit);
+              userInsert.subreddit_activity = history.subredditActivity;
+              historyPostsExtracted += history.postCount;
+              historyCommentsExtracted += history.commentCount;
+            } catch (error) {
+              console.log(`Failed to crawl history for user ${username}:`, error);
+            }
+          }
+
+          userInserts.push(userInsert);
+          fetchedUsers.add(username);
+        } catch (error) {
+          console.log(`Failed to fetch user ${username}:`, error);
+          userErrors++;
         }
-      } catch (error) {
-        console.log(`Failed to fetch user ${username}:`, error);
       }
-      
-      // Rate limiting - wait between requests
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
 
-    // Insert users
-    if (userInserts.length > 0) {
-      await supabaseClient
-        .from('reddit_accounts')
-        .upsert(userInserts, { onConflict: 'username' });
+      // Insert users
+      if (userInserts.length > 0) {
+        await supabaseClient
+          .from('reddit_accounts')
+          .upsert(userInserts, { onConflict: 'username' });
+      }
+
+      checkpoint.fetched_users = [...fetchedUsers];
+      await saveCheckpoint();
+
+      if (session_id && await isSessionCancelled(supabaseClient, session_id)) return cancelledResponse();
     }
 
+    await userProgress.finish('completed', {
+      items_done: fetchedUsers.size,
+      error_count: userErrors,
+      rate_limit_waits: reddit.stats.rateLimitWaits
+    });
+
     // Update session
     if (session_id) {
+      await assertLeaseHeld(supabaseClient, lease);
       await supabaseClient
         .from('analysis_sessions')
         .update({ 
           status: 'data_extracted',
-          total_accounts_analyzed: userInserts.length
+          total_accounts_analyzed: fetchedUsers.size
         })
-        .eq('id', session_id);
+        .eq('id', session_id)
+        .neq('status', 'cancelled');
     }
 
-    console.log(`Successfully extracted and stored data for ${userInserts.length} users`);
+    console.log(`Successfully extracted and stored data for ${fetchedUsers.size} users`);
 
     return new Response(JSON.stringify({ 
       success: true,
-      posts_extracted: posts.length,
-      users_extracted: userInserts.length,
+      posts_extracted: listedPosts.size,
+      pages_fetched: checkpoint.pages_fetched,
+      comments_extracted: checkpoint.comments_extracted,
+      history_posts_extracted: historyPostsExtracted,
+      history_comments_extracted: historyCommentsExtracted,
+      listing_error: listingError,
+      reddit_stats: reddit.stats,
+      users_extracted: fetchedUsers.size,
       message: 'Reddit data extraction completed successfully'
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -223,8 +662,11 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Error in reddit-extract function:', error);
+    // A superseded run leaves progress to the worker that reclaimed the job
+    const superseded = error instanceof LeaseLostError;
+    if (!superseded) await activeProgress?.finish('failed', { message: error.message });
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: superseded ? 409 : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
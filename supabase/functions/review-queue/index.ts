@@ -0,0 +1,254 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { LabelValue, ReviewerLabel, reviewerAgreement } from '../_shared/labels.ts'
+import { fetchAllRows } from '../_shared/pagination.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const LABEL_VALUES: LabelValue[] = ['bot', 'human', 'unsure'];
+
+// uncertainty: closest to the 0.5 decision boundary first, where a human
+// verdict teaches the classifier most
+// priority: members of coordinated clusters first, then the highest scores
+const QUEUE_ORDERS = ['uncertainty', 'priority'];
+
+const DEFAULT_QUEUE_SIZE = 20;
+
+interface QueueItem {
+  username: string;
+  bot_probability: number;
+  confidence_score: number;
+  detection_method: string;
+  risk_factors: unknown;
+  score_explanation: unknown;
+  analysis_timestamp: string;
+  assigned: boolean;
+  in_cluster: boolean;
+  review_count: number;
+}
+
+async function loadAssignments(supabaseClient: SupabaseClient) {
+  return await fetchAllRows((from, to) => supabaseClient
+    .from('review_assignments')
+    .select('id, username, reviewer, status')
+    .order('id')
+    .range(from, to), 'assignments');
+}
+
+// review_queue_candidates does the filtering; this orders and pages it.
+// `remaining` counts candidates from `offset` on, including this page.
+async function buildQueue(
+  supabaseClient: SupabaseClient,
+  reviewer: string | undefined,
+  minProbability: number,
+  order: string,
+  offset: number,
+  limit: number
+): Promise<{ items: QueueItem[]; remaining: number }> {
+  let query = supabaseClient
+    .rpc('review_queue_candidates', {
+      p_reviewer: reviewer || null,
+      p_min_probability: minProbability
+    }, { count: 'exact' })
+    .select('username, bot_probability, confidence_score, detection_method, risk_factors, score_explanation, analysis_timestamp, assigned, in_cluster, review_count')
+    .order('assigned', { ascending: false });
+
+  query = order === 'priority'
+    ? query.order('in_cluster', { ascending: false }).order('bot_probability', { ascending: false })
+    : query.order('uncertainty', { ascending: true });
+
+  const { data, error, count } = await query
+    .order('username')
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch review queue: ${error.message}`);
+  }
+
+  return { items: (data || []) as QueueItem[], remaining: Math.max((count ?? 0) - offset, 0) };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    )
+
+    const {
+      action = 'queue',
+      reviewer,
+      username,
+      usernames,
+      label,
+      note,
+      min_probability = 0.5,
+      order = 'uncertainty',
+      offset = 0,
+      limit = DEFAULT_QUEUE_SIZE
+    } = await req.json();
+
+    if (action === 'queue') {
+      if (!QUEUE_ORDERS.includes(order)) {
+        throw new Error(`Unknown queue order: ${order}. Expected one of ${QUEUE_ORDERS.join(', ')}`);
+      }
+
+      if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+        throw new Error('offset must be a non-negative integer and limit a positive integer');
+      }
+
+      const { items, remaining } = await buildQueue(supabaseClient, reviewer, Number(min_probability), order, offset, limit);
+
+      return new Response(JSON.stringify({
+        success: true,
+        items,
+        remaining
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'label') {
+      if (!LABEL_VALUES.includes(label)) {
+        throw new Error(`Unknown label: ${label}. Expected one of ${LABEL_VALUES.join(', ')}`);
+      }
+      if (!username) {
+        throw new Error('username is required');
+      }
+
+      const { data, error } = await supabaseClient
+        .from('account_labels')
+        .insert({
+          username,
+          label,
+          labeller: reviewer || null,
+          note: note || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save label: ${error.message}`);
+      }
+
+      if (reviewer) {
+        const { error: assignmentError } = await supabaseClient
+          .from('review_assignments')
+          .update({ status: 'done', completed_at: new Date().toISOString() })
+          .eq('username', username)
+          .eq('reviewer', reviewer);
+
+        if (assignmentError) {
+          throw new Error(`Failed to complete assignment: ${assignmentError.message}`);
+        }
+      }
+
+      console.log(`Labelled ${username} as ${label}${reviewer ? ` (${reviewer})` : ''}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        label: data,
+        message: 'Label saved'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'assign') {
+      if (!reviewer || !Array.isArray(usernames) || usernames.length === 0) {
+        throw new Error('reviewer and usernames are required');
+      }
+
+      // Reassigning an account reopens it for that reviewer
+      const { data, error } = await supabaseClient
+        .from('review_assignments')
+        .upsert(usernames.map((name: string) => ({
+          username: name,
+          reviewer,
+          status: 'pending',
+          assigned_at: new Date().toISOString(),
+          completed_at: null
+        })), { onConflict: 'username,reviewer' })
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to assign accounts: ${error.message}`);
+      }
+
+      console.log(`Assigned ${usernames.length} accounts to ${reviewer}`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        assignments: data || [],
+        message: `Assigned ${usernames.length} accounts to ${reviewer}`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'unassign') {
+      if (!reviewer) {
+        throw new Error('reviewer is required');
+      }
+
+      let query = supabaseClient
+        .from('review_assignments')
+        .delete()
+        .eq('reviewer', reviewer);
+
+      if (Array.isArray(usernames) && usernames.length > 0) {
+        query = query.in('username', usernames);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to remove assignments: ${error.message}`);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'Assignments removed'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else if (action === 'agreement') {
+      const labels = await fetchAllRows((from, to) => supabaseClient
+        .from('account_labels')
+        .select('id, username, label, labeller, labelled_at')
+        .order('id')
+        .range(from, to), 'labels');
+
+      const assignments = await loadAssignments(supabaseClient);
+      const workload: Record<string, { pending: number; done: number }> = {};
+      for (const assignment of assignments) {
+        workload[assignment.reviewer] ??= { pending: 0, done: 0 };
+        workload[assignment.reviewer][assignment.status === 'done' ? 'done' : 'pending']++;
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        agreement: reviewerAgreement(labels as ReviewerLabel[]),
+        workload
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+
+    } else {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+  } catch (error) {
+    console.error('Error in review-queue function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
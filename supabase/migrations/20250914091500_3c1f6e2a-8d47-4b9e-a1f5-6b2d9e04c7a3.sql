@@ -0,0 +1,4 @@
+-- Track listing pagination progress while posts are being extracted
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN posts_extracted INTEGER DEFAULT 0,
+  ADD COLUMN pages_fetched INTEGER DEFAULT 0;
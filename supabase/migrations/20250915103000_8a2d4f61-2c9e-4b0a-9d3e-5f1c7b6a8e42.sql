@@ -0,0 +1,18 @@
+-- Fitted anomaly detection models, so later sessions can score against a fixed baseline
+CREATE TABLE public.anomaly_models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.analysis_sessions(id) ON DELETE SET NULL,
+  model_type TEXT NOT NULL DEFAULT 'isolation_forest',
+  feature_names JSONB NOT NULL,
+  parameters JSONB,
+  training_size INTEGER NOT NULL DEFAULT 0,
+  model JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.anomaly_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to anomaly_models" 
+ON public.anomaly_models FOR ALL USING (true);
+
+CREATE INDEX idx_anomaly_models_created_at ON public.anomaly_models(created_at DESC);
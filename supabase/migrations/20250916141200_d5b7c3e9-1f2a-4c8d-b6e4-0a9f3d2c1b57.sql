@@ -0,0 +1,37 @@
+-- Analyst verdicts used to train and evaluate supervised detectors
+CREATE TABLE public.account_labels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  username TEXT NOT NULL,
+  label TEXT NOT NULL CHECK (label IN ('bot', 'human', 'unsure')),
+  labeller TEXT,
+  note TEXT,
+  labelled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Trained classifiers, versioned per model name
+CREATE TABLE public.classifier_models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL,
+  model_type TEXT NOT NULL DEFAULT 'logistic_regression',
+  feature_names JSONB NOT NULL,
+  parameters JSONB,
+  training_size INTEGER NOT NULL DEFAULT 0,
+  training_metrics JSONB,
+  model JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (name, version)
+);
+
+ALTER TABLE public.account_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classifier_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to account_labels" 
+ON public.account_labels FOR ALL USING (true);
+
+CREATE POLICY "Allow public access to classifier_models" 
+ON public.classifier_models FOR ALL USING (true);
+
+CREATE INDEX idx_account_labels_username ON public.account_labels(username, labelled_at DESC);
+CREATE INDEX idx_classifier_models_created_at ON public.classifier_models(created_at DESC);
@@ -0,0 +1,28 @@
+-- Results of running a detection method against the labelled holdout
+CREATE TABLE public.evaluation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  detection_method TEXT NOT NULL,
+  requested_method TEXT NOT NULL,
+  classifier_model_id UUID REFERENCES public.classifier_models(id) ON DELETE SET NULL,
+  anomaly_model_id UUID REFERENCES public.anomaly_models(id) ON DELETE SET NULL,
+  holdout_fraction REAL NOT NULL,
+  holdout_size INTEGER NOT NULL,
+  positives INTEGER NOT NULL,
+  threshold REAL NOT NULL,
+  precision REAL NOT NULL,
+  recall REAL NOT NULL,
+  f1_score REAL NOT NULL,
+  accuracy REAL NOT NULL,
+  roc_auc REAL,
+  pr_auc REAL,
+  confusion_matrix JSONB NOT NULL,
+  threshold_metrics JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.evaluation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to evaluation_runs" 
+ON public.evaluation_runs FOR ALL USING (true);
+
+CREATE INDEX idx_evaluation_runs_created_at ON public.evaluation_runs(created_at DESC);
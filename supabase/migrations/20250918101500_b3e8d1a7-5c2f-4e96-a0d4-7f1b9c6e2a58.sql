@@ -0,0 +1,32 @@
+-- Rings of accounts linked by shared links, co-commenting and duplicated text
+CREATE TABLE public.coordination_clusters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.analysis_sessions(id) ON DELETE CASCADE,
+  member_count INTEGER NOT NULL,
+  density REAL NOT NULL,
+  total_weight REAL NOT NULL,
+  evidence_counts JSONB NOT NULL,
+  evidence JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.coordination_cluster_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cluster_id UUID NOT NULL REFERENCES public.coordination_clusters(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  edge_weight REAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(cluster_id, username)
+);
+
+ALTER TABLE public.coordination_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coordination_cluster_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to coordination_clusters"
+ON public.coordination_clusters FOR ALL USING (true);
+
+CREATE POLICY "Allow public access to coordination_cluster_members"
+ON public.coordination_cluster_members FOR ALL USING (true);
+
+CREATE INDEX idx_coordination_clusters_session ON public.coordination_clusters(session_id);
+CREATE INDEX idx_coordination_cluster_members_username ON public.coordination_cluster_members(username);
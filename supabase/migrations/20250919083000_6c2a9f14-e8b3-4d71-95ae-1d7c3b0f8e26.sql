@@ -0,0 +1,3 @@
+-- Per-feature breakdown of how each score was reached
+ALTER TABLE public.bot_detection_results
+  ADD COLUMN score_explanation JSONB;
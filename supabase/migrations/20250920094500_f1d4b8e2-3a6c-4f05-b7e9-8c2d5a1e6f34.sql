@@ -0,0 +1,29 @@
+-- Keep every verdict: results belong to the session and scorer that produced them
+ALTER TABLE public.bot_detection_results
+  ADD COLUMN session_id UUID REFERENCES public.analysis_sessions(id) ON DELETE CASCADE,
+  ADD COLUMN model_version TEXT NOT NULL DEFAULT 'legacy';
+
+ALTER TABLE public.bot_detection_results
+  ALTER COLUMN model_version DROP DEFAULT;
+
+-- Earlier runs could leave several rows per account; keep the newest of each
+DELETE FROM public.bot_detection_results AS r
+USING public.bot_detection_results AS newer
+WHERE r.username = newer.username
+  AND r.detection_method = newer.detection_method
+  AND r.session_id IS NULL
+  AND newer.session_id IS NULL
+  AND (r.analysis_timestamp, r.id) < (newer.analysis_timestamp, newer.id);
+
+CREATE UNIQUE INDEX idx_bot_detection_results_run_key
+ON public.bot_detection_results(session_id, username, detection_method, model_version) NULLS NOT DISTINCT;
+
+CREATE INDEX idx_bot_detection_results_username_timestamp
+ON public.bot_detection_results(username, analysis_timestamp DESC);
+
+-- Most recent verdict per account, whatever run produced it
+CREATE VIEW public.latest_bot_verdicts
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (username) *
+FROM public.bot_detection_results
+ORDER BY username, analysis_timestamp DESC, created_at DESC;
@@ -0,0 +1,104 @@
+-- Pipeline stages run as background jobs claimed by analysis-worker
+CREATE TABLE public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.analysis_sessions(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('extract', 'detect', 'coordinate')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  payload JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  error_message TEXT,
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to analysis_jobs"
+ON public.analysis_jobs FOR ALL USING (true);
+
+CREATE INDEX idx_analysis_jobs_claimable ON public.analysis_jobs(status, run_after);
+CREATE INDEX idx_analysis_jobs_session ON public.analysis_jobs(session_id, created_at);
+
+-- At most one live job per stage of a session
+CREATE UNIQUE INDEX idx_analysis_jobs_active_stage
+ON public.analysis_jobs(session_id, stage) WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_analysis_jobs_updated_at
+  BEFORE UPDATE ON public.analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN error_message TEXT;
+
+-- Atomically claim the oldest runnable job: queued and due, or running with
+-- an expired lease (its worker died). SKIP LOCKED keeps concurrent workers
+-- from claiming the same row.
+CREATE OR REPLACE FUNCTION public.claim_analysis_job(p_worker_id TEXT, p_lease_seconds INTEGER DEFAULT 120)
+RETURNS SETOF public.analysis_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.analysis_jobs
+  SET status = 'running',
+      lease_owner = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      attempts = attempts + 1,
+      started_at = COALESCE(started_at, now())
+  WHERE id = (
+    SELECT id FROM public.analysis_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND lease_expires_at < now())
+    ORDER BY run_after, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Poll for due retries and abandoned leases once a minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Scheduled jobs reach edge functions through this. The project URL and key
+-- come from the Vault secrets 'project_url' and 'anon_key', set once per
+-- deployment; a database without them (local, staging resets) skips the call
+-- rather than reaching some other project.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(p_function TEXT, p_body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'anon_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/' || p_function,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := p_body
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler calls it; keep it off the public API
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'analysis-worker',
+  '* * * * *',
+  $$ SELECT public.invoke_edge_function('analysis-worker'); $$
+);
@@ -0,0 +1,12 @@
+-- Checkpoints so an interrupted session can resume instead of starting over
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN extraction_checkpoint JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN last_completed_stage TEXT;
+
+-- Jobs of a cancelled session are closed as cancelled rather than failed
+ALTER TABLE public.analysis_jobs
+  DROP CONSTRAINT analysis_jobs_status_check;
+
+ALTER TABLE public.analysis_jobs
+  ADD CONSTRAINT analysis_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
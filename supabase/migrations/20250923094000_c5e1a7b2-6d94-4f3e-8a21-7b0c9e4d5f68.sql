@@ -0,0 +1,32 @@
+-- Live per-stage progress of a session, streamed to the dashboard over Realtime
+CREATE TABLE public.analysis_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.analysis_sessions(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  items_done INTEGER NOT NULL DEFAULT 0,
+  items_total INTEGER,
+  current_item TEXT,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  rate_limit_waits INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(session_id, stage)
+);
+
+ALTER TABLE public.analysis_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to analysis_progress"
+ON public.analysis_progress FOR ALL USING (true);
+
+CREATE TRIGGER update_analysis_progress_updated_at
+  BEFORE UPDATE ON public.analysis_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Session status changes are streamed too, so the dashboard sees completion
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_progress;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_sessions;
@@ -0,0 +1,52 @@
+-- Recurring analyses: each monitor re-runs a subreddit on a cron schedule
+CREATE TABLE public.monitors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  subreddit TEXT NOT NULL,
+  sort TEXT NOT NULL DEFAULT 'hot',
+  t TEXT NOT NULL DEFAULT 'day',
+  max_posts INTEGER NOT NULL DEFAULT 100,
+  crawl_user_history BOOLEAN NOT NULL DEFAULT false,
+  cron_expression TEXT NOT NULL,
+  detection_method TEXT NOT NULL DEFAULT 'hybrid' CHECK (detection_method IN ('hybrid', 'rule_based', 'supervised')),
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per scheduled firing, including the ones that were skipped
+CREATE TABLE public.monitor_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  monitor_id UUID NOT NULL REFERENCES public.monitors(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.analysis_sessions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('started', 'skipped', 'failed')),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.monitors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.monitor_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to monitors"
+ON public.monitors FOR ALL USING (true);
+
+CREATE POLICY "Allow public access to monitor_runs"
+ON public.monitor_runs FOR ALL USING (true);
+
+CREATE INDEX idx_monitors_next_run_at ON public.monitors(next_run_at) WHERE NOT is_paused;
+CREATE INDEX idx_monitor_runs_monitor_id ON public.monitor_runs(monitor_id, created_at DESC);
+
+CREATE TRIGGER update_monitors_updated_at
+  BEFORE UPDATE ON public.monitors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Targets the project configured in Vault, see invoke_edge_function
+SELECT cron.schedule(
+  'monitor-tick',
+  '* * * * *',
+  $$ SELECT public.invoke_edge_function('monitors', '{"action": "tick"}'::jsonb); $$
+);
@@ -0,0 +1,28 @@
+-- Results joined with the account and session they belong to, so the results
+-- table can sort and filter on account age, karma and subreddit server-side
+CREATE VIEW public.detection_result_rows
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.session_id,
+  r.username,
+  r.bot_probability,
+  r.confidence_score,
+  r.detection_method,
+  r.model_version,
+  r.risk_factors,
+  -- PostgREST cannot pattern-match inside a JSON array; this text copy can
+  r.risk_factors::text AS risk_factors_text,
+  r.analysis_timestamp,
+  a.account_age_days,
+  a.comment_karma,
+  a.link_karma,
+  COALESCE(a.comment_karma, 0) + COALESCE(a.link_karma, 0) AS total_karma,
+  s.subreddit,
+  s.session_name
+FROM public.bot_detection_results r
+LEFT JOIN public.reddit_accounts a ON a.username = r.username
+LEFT JOIN public.analysis_sessions s ON s.id = r.session_id;
+
+CREATE INDEX idx_bot_detection_results_confidence ON public.bot_detection_results(confidence_score);
+CREATE INDEX idx_bot_detection_results_timestamp ON public.bot_detection_results(analysis_timestamp DESC);
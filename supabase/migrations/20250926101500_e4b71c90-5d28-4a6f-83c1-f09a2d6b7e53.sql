@@ -0,0 +1,53 @@
+-- Accounts handed to a specific reviewer. An account can be assigned to
+-- several reviewers so their labels can be compared.
+CREATE TABLE public.review_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  username TEXT NOT NULL,
+  reviewer TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+  assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(username, reviewer)
+);
+
+ALTER TABLE public.review_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to review_assignments"
+ON public.review_assignments FOR ALL USING (true);
+
+CREATE INDEX idx_review_assignments_reviewer ON public.review_assignments(reviewer, status);
+CREATE INDEX idx_account_labels_labeller ON public.account_labels(labeller, username);
+
+-- Show the latest analyst verdict next to each result
+CREATE OR REPLACE VIEW public.detection_result_rows
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.session_id,
+  r.username,
+  r.bot_probability,
+  r.confidence_score,
+  r.detection_method,
+  r.model_version,
+  r.risk_factors,
+  -- PostgREST cannot pattern-match inside a JSON array; this text copy can
+  r.risk_factors::text AS risk_factors_text,
+  r.analysis_timestamp,
+  a.account_age_days,
+  a.comment_karma,
+  a.link_karma,
+  COALESCE(a.comment_karma, 0) + COALESCE(a.link_karma, 0) AS total_karma,
+  s.subreddit,
+  s.session_name,
+  l.label AS analyst_label
+FROM public.bot_detection_results r
+LEFT JOIN public.reddit_accounts a ON a.username = r.username
+LEFT JOIN public.analysis_sessions s ON s.id = r.session_id
+LEFT JOIN LATERAL (
+  SELECT label
+  FROM public.account_labels
+  WHERE account_labels.username = r.username
+  ORDER BY labelled_at DESC
+  LIMIT 1
+) l ON true;
@@ -0,0 +1,64 @@
+-- Review queue candidates for one reviewer: their own pending assignments plus
+-- unassigned accounts they have not labelled. Without a reviewer, accounts
+-- nobody has labelled. Filtering here rather than in the edge function keeps
+-- already reviewed accounts from taking up a page; the caller orders and pages
+-- the result.
+CREATE OR REPLACE FUNCTION public.review_queue_candidates(
+  p_reviewer TEXT DEFAULT NULL,
+  p_min_probability REAL DEFAULT 0.5
+)
+RETURNS TABLE (
+  username TEXT,
+  bot_probability REAL,
+  confidence_score REAL,
+  detection_method TEXT,
+  risk_factors JSONB,
+  score_explanation JSONB,
+  analysis_timestamp TIMESTAMP WITH TIME ZONE,
+  assigned BOOLEAN,
+  in_cluster BOOLEAN,
+  review_count INTEGER,
+  -- Distance from the 0.5 decision boundary, for the uncertainty order
+  uncertainty REAL
+) AS $$
+  SELECT
+    v.username,
+    v.bot_probability,
+    v.confidence_score,
+    v.detection_method,
+    v.risk_factors,
+    v.score_explanation,
+    v.analysis_timestamp,
+    EXISTS (
+      SELECT 1 FROM public.review_assignments a
+      WHERE a.username = v.username AND a.reviewer = p_reviewer AND a.status = 'pending'
+    ) AS assigned,
+    EXISTS (
+      SELECT 1 FROM public.coordination_cluster_members m
+      WHERE m.username = v.username
+    ) AS in_cluster,
+    (SELECT count(*) FROM public.account_labels l WHERE l.username = v.username)::INTEGER AS review_count,
+    abs(v.bot_probability - 0.5)::REAL AS uncertainty
+  FROM public.latest_bot_verdicts v
+  WHERE v.bot_probability >= p_min_probability
+    AND CASE
+      WHEN p_reviewer IS NULL THEN NOT EXISTS (
+        SELECT 1 FROM public.account_labels l WHERE l.username = v.username
+      )
+      ELSE NOT EXISTS (
+        SELECT 1 FROM public.account_labels l
+        WHERE l.username = v.username AND l.labeller = p_reviewer
+      ) AND (
+        EXISTS (
+          SELECT 1 FROM public.review_assignments a
+          WHERE a.username = v.username AND a.reviewer = p_reviewer AND a.status = 'pending'
+        )
+        OR NOT EXISTS (
+          SELECT 1 FROM public.review_assignments a
+          WHERE a.username = v.username AND a.reviewer <> p_reviewer AND a.status = 'pending'
+        )
+      )
+    END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE INDEX idx_review_assignments_username ON public.review_assignments(username, status);
@@ -0,0 +1,3 @@
+-- Text duplication features read a recent window of posts and comments
+CREATE INDEX idx_reddit_posts_created_utc ON public.reddit_posts(created_utc);
+CREATE INDEX idx_reddit_comments_created_utc ON public.reddit_comments(created_utc);